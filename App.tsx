@@ -1,68 +1,198 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Users } from 'lucide-react';
 import { UploadPhase } from './components/UploadPhase';
 import { ReviewPhase } from './components/ReviewPhase';
 import { ProcessPhase } from './components/ProcessPhase';
-import { Phase, VideoConfig, CutEvent, ProcessingMetrics, PhraseList } from './types';
-import { analyzeVideoMock } from './services/geminiService';
-import { Loader2 } from 'lucide-react';
+import { Phase, VideoConfig, CutEvent, ProcessingMetrics, PhraseList, Transcript, ProjectSummary, CutHistory, CoachingSession, EditingReport, DetectedCutType } from './types';
+import { AnalysisProgress, runAnalysis } from './services/analysisService';
+import { CustomPhrase } from './services/detectionService';
+import { createProject, deleteProject, duplicateProject, listProjects, openProject, updateProject } from './services/projectStore';
+import { DEFAULT_CATEGORY_RULES } from './services/reviewRulesService';
+import { DEFAULT_AUDIO_JOINS } from './services/audioJoinService';
+import { DEFAULT_LLM_SETTINGS } from './services/llmService';
+import { DEFAULT_NORMALIZATION, normalizeCuts, totalRemoved } from './services/cutListService';
+import { createCommand, EditCuts, EMPTY_HISTORY, pushCommand, travelTo } from './services/historyService';
+import { transcriptionSetupError } from './services/transcriptionService';
+import { createPhraseList, deletePhraseList, listPhraseLists, mergePhraseLists, savePhraseList } from './services/phraseListService';
+import { buildCoachingSession, deleteCoachingSession, listCoachingSessions, listSpeakers, saveCoachingSession, UNNAMED_SPEAKER } from './services/coachingHistoryService';
+import { AnalysisProgressPanel } from './components/AnalysisProgress';
+import { CoachingDashboard } from './components/CoachingDashboard';
+
+const DEFAULT_CONFIG: VideoConfig = {
+  removeCliches: true,
+  removeFillers: true,
+  removeSilence: true,
+  removeRepetition: true,
+  removeStuttering: true,
+  silenceThreshold: 1.0,
+  silenceFloorDb: -40,
+  customPhrases: [],
+  activePhraseListIds: [],
+  categoryRules: DEFAULT_CATEGORY_RULES,
+  normalization: DEFAULT_NORMALIZATION,
+  audioJoins: DEFAULT_AUDIO_JOINS,
+  transcription: {
+    // Without a Gemini key the user has to pick a provider; the sample transcript is for demos only.
+    provider: process.env.API_KEY ? 'gemini' : null,
+    whisperEndpoint: 'http://localhost:8000',
+    whisperModel: 'whisper-1',
+    fixtureUrl: '/fixtures/sample-transcript.json'
+  },
+  llm: DEFAULT_LLM_SETTINGS,
+  outputFormat: 'mp4',
+  outputQuality: '1080p',
+  subtitles: {
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    maxCueDuration: 6
+  },
+  speaker: ''
+};
+
+// Projects saved by older versions may lack newer settings, at any depth
+const withConfigDefaults = (stored: Partial<VideoConfig>): VideoConfig => ({
+  ...DEFAULT_CONFIG,
+  ...stored,
+  categoryRules: Object.fromEntries(
+    (Object.keys(DEFAULT_CATEGORY_RULES) as DetectedCutType[]).map(type => [type, { ...DEFAULT_CATEGORY_RULES[type], ...stored.categoryRules?.[type] }])
+  ) as VideoConfig['categoryRules'],
+  normalization: {
+    ...DEFAULT_NORMALIZATION,
+    ...stored.normalization,
+    silence: { ...DEFAULT_NORMALIZATION.silence, ...stored.normalization?.silence }
+  },
+  audioJoins: { ...DEFAULT_AUDIO_JOINS, ...stored.audioJoins },
+  transcription: { ...DEFAULT_CONFIG.transcription, ...stored.transcription },
+  llm: { ...DEFAULT_LLM_SETTINGS, ...stored.llm },
+  subtitles: { ...DEFAULT_CONFIG.subtitles, ...stored.subtitles }
+});
 
 const App: React.FC = () => {
   const [phase, setPhase] = useState<Phase>('upload');
   const [file, setFile] = useState<File | null>(null);
   const [fileUrl, setFileUrl] = useState<string>('');
   
-  const [config, setConfig] = useState<VideoConfig>({
-    removeCliches: true,
-    removeFillers: true,
-    removeSilence: true,
-    removeRepetition: true,
-    removeStuttering: true,
-    silenceThreshold: 1.0,
-    customPhrases: [],
-    outputFormat: 'mp4',
-    outputQuality: '1080p'
-  });
-
-  // State for managing saved lists of phrases
-  const [savedLists, setSavedLists] = useState<PhraseList[]>([
-    { 
-      id: 'default-1', 
-      name: 'Church Service', 
-      phrases: [
-        'Hallelujah', 
-        'Amen', 
-        'Praise God', 
-        'Blessing', 
-        'Scripture',
-        'Glory to Jesus',
-        'Glory to God',
-        'Praise the Lord',
-        'Thank you Lord',
-        'Thank you Father'
-      ] 
-    },
-    { 
-      id: 'default-2', 
-      name: 'Corporate Meeting', 
-      phrases: ['Touch base', 'Circle back', 'Synergy', 'Deep dive', 'Offline'] 
-    },
-    {
-      id: 'default-3',
-      name: 'Gen Z Slang',
-      phrases: ['Literally', 'No cap', 'Vibe', 'Bet', 'Lowkey']
-    }
-  ]);
+  const [config, setConfig] = useState<VideoConfig>(DEFAULT_CONFIG);
+
+  // Saved phrase lists live in IndexedDB; any number of them can be active at once
+  const [savedLists, setSavedLists] = useState<PhraseList[]>([]);
+
+  useEffect(() => {
+    listPhraseLists()
+      .then(setSavedLists)
+      .catch(error => console.warn("Could not load phrase lists", error));
+  }, []);
 
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
   const [cuts, setCuts] = useState<CutEvent[]>([]);
+  const [history, setHistory] = useState<CutHistory>(EMPTY_HISTORY);
+  // Edits read the latest cuts synchronously so each one is diffed against its true predecessor
+  const cutsRef = useRef(cuts);
+  cutsRef.current = cuts;
+  const historyRef = useRef(history);
+  historyRef.current = history;
   const [originalDuration, setOriginalDuration] = useState(0);
 
+  // Analysis keeps running after the review opens, while later cuts stream in
+  const [analysis, setAnalysis] = useState<AnalysisProgress | null>(null);
+  const analysisRef = useRef<AbortController | null>(null);
+
+  // Persisted projects. The playhead moves every frame, so it lives in a ref and is saved on a timer.
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [resumePlayhead, setResumePlayhead] = useState(0);
+  const playheadRef = useRef(0);
+
+  const refreshProjects = useCallback(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(error => console.warn("Could not load saved projects", error));
+  }, []);
+
+  useEffect(() => {
+    if (phase === 'upload') refreshProjects();
+  }, [phase, refreshProjects]);
+
+  // Per-speaker coaching history, one entry per processed video
+  const [coachingSessions, setCoachingSessions] = useState<CoachingSession[]>([]);
+  const [showCoaching, setShowCoaching] = useState(false);
+
+  const refreshCoachingSessions = useCallback(() => {
+    listCoachingSessions()
+      .then(setCoachingSessions)
+      .catch(error => console.warn("Could not load coaching history", error));
+  }, []);
+
+  useEffect(() => {
+    if (phase === 'upload') refreshCoachingSessions();
+  }, [phase, refreshCoachingSessions]);
+
+  // Autosave session state shortly after every change
+  useEffect(() => {
+    if (!projectId || phase === 'upload' || phase === 'analyzing') return;
+    const timeout = setTimeout(() => {
+      updateProject(projectId, { phase, cuts, history, config, transcript, originalDuration, playhead: playheadRef.current })
+        .catch(error => console.warn("Autosave failed", error));
+    }, 800);
+    return () => clearTimeout(timeout);
+  }, [projectId, phase, cuts, history, config, transcript, originalDuration]);
+
+  // Save the playhead periodically and when the page is hidden
+  useEffect(() => {
+    if (!projectId) return;
+    let saved = playheadRef.current;
+    const savePlayhead = () => {
+      if (playheadRef.current === saved) return;
+      saved = playheadRef.current;
+      updateProject(projectId, { playhead: saved }).catch(error => console.warn("Autosave failed", error));
+    };
+    const interval = setInterval(savePlayhead, 5000);
+    window.addEventListener('pagehide', savePlayhead);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', savePlayhead);
+    };
+  }, [projectId]);
+
+  const handlePlayheadChange = useCallback((time: number) => {
+    playheadRef.current = time;
+  }, []);
+
+  // Every review edit goes through here so it can be undone
+  const editCuts: EditCuts = useCallback((label, update) => {
+    const prev = cutsRef.current;
+    const next = update(prev);
+    const command = createCommand(prev, next, label);
+    if (!command) return;
+    cutsRef.current = next;
+    historyRef.current = pushCommand(historyRef.current, command);
+    setCuts(next);
+    setHistory(historyRef.current);
+  }, []);
+
+  const handleHistoryTravel = useCallback((position: number) => {
+    const result = travelTo(cutsRef.current, historyRef.current, position);
+    cutsRef.current = result.cuts;
+    historyRef.current = result.history;
+    setCuts(result.cuts);
+    setHistory(result.history);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (historyRef.current.past.length > 0) handleHistoryTravel(historyRef.current.past.length - 1);
+  }, [handleHistoryTravel]);
+
+  const handleRedo = useCallback(() => {
+    if (historyRef.current.future.length > 0) handleHistoryTravel(historyRef.current.past.length + 1);
+  }, [handleHistoryTravel]);
+
   // Setup file URL for preview
   useEffect(() => {
     if (file) {
       const url = URL.createObjectURL(file);
       setFileUrl(url);
       
-      // Get duration quickly to feed mock service
+      // Get duration quickly for metrics
       const video = document.createElement('video');
       video.preload = 'metadata';
       video.onloadedmetadata = () => {
@@ -77,71 +207,229 @@ const App: React.FC = () => {
 
   const handleStartAnalysis = async () => {
     if (!file) return;
+    const setupError = transcriptionSetupError(config.transcription);
+    if (setupError) {
+      alert(setupError);
+      return;
+    }
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
     setPhase('analyzing');
-    
+    setAnalysis(null);
+    // A new analysis becomes a new project once it finishes
+    setProjectId(null);
+    setTranscript(null);
+    cutsRef.current = [];
+    setCuts([]);
+    setHistory(EMPTY_HISTORY);
+    playheadRef.current = 0;
+    setResumePlayhead(0);
+
+    // Phrases from active lists are tagged with their list; one-off phrases follow untagged.
+    // A phrase in several lists is matched once, for the first list.
+    const seenPhrases = new Set<string>();
+    const customPhrases: CustomPhrase[] = [
+      ...savedLists
+        .filter(l => config.activePhraseListIds.includes(l.id))
+        .flatMap(l => l.phrases.map(phrase => ({ phrase, list: l.name }))),
+      ...config.customPhrases.map(phrase => ({ phrase }))
+    ].filter(({ phrase }) => {
+      const key = phrase.toLowerCase();
+      if (seenPhrases.has(key)) return false;
+      seenPhrases.add(key);
+      return true;
+    });
+
+    // Each batch joins the list outside the undo history; the reviewer may already be editing
+    const handleCuts = (batch: CutEvent[]) => {
+      if (controller.signal.aborted) return;
+      const next = [...cutsRef.current, ...batch].sort((a, b) => a.start - b.start);
+      cutsRef.current = next;
+      setCuts(next);
+      if (batch.length > 0) setPhase(p => (p === 'analyzing' ? 'review' : p));
+    };
+
     try {
-      // In a real app, we'd upload the file here.
-      // Here we simulate the analysis delay and generation of cut metadata.
-      // We pass the duration so the mock cuts are within valid range.
-      const mockDuration = originalDuration || 60; // Fallback if metadata load failed
-      const generatedCuts = await analyzeVideoMock(mockDuration);
-      
-      // Filter based on config (basic client-side filtering of mock data)
-      const filteredCuts = generatedCuts.filter(c => {
-         if (c.type === 'cliche' && !config.removeCliches) return false;
-         if (c.type === 'filler' && !config.removeFillers) return false;
-         
-         if (c.type === 'silence') {
-            if (!config.removeSilence) return false;
-            // Respect the silence threshold (duration of silence must be > threshold)
-            if ((c.end - c.start) < config.silenceThreshold) return false;
-         }
-
-         if (c.type === 'repetition' && !config.removeRepetition) return false;
-         if (c.type === 'stutter' && !config.removeStuttering) return false;
-         return true;
-      });
-
-      setCuts(filteredCuts);
-      setPhase('review');
+      const result = await runAnalysis(file, config, customPhrases, originalDuration, setAnalysis, handleCuts, controller.signal);
+
+      setTranscript(result);
+      setAnalysis(null);
+      setPhase(p => (p === 'analyzing' ? 'review' : p));
+      analysisRef.current = null;
+
+      createProject(file, {
+        phase: 'review',
+        playhead: playheadRef.current,
+        originalDuration,
+        config,
+        cuts: cutsRef.current,
+        transcript: result
+      })
+        .then(record => setProjectId(record.id))
+        .catch(error => console.warn("Project could not be saved", error));
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("Analysis failed", error);
       alert("Analysis failed. Please try again.");
+      analysisRef.current = null;
+      setAnalysis(null);
       setPhase('upload');
     }
   };
 
+  // Stops a running analysis and discards what it found so far
+  const handleCancelAnalysis = () => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+    setAnalysis(null);
+    setTranscript(null);
+    cutsRef.current = [];
+    setCuts([]);
+    setHistory(EMPTY_HISTORY);
+    setPhase('upload');
+  };
+
   const handleConfirmCuts = () => {
     setPhase('processing');
   };
 
   const handleReset = () => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+    setAnalysis(null);
     setPhase('upload');
     setFile(null);
     setFileUrl('');
+    setTranscript(null);
     setCuts([]);
+    setHistory(EMPTY_HISTORY);
+    setProjectId(null);
+    playheadRef.current = 0;
+    setResumePlayhead(0);
   };
 
-  const handleSaveList = (name: string, phrases: string[]) => {
-    const newList: PhraseList = {
-      id: Date.now().toString(),
-      name,
-      phrases: [...phrases]
-    };
-    setSavedLists(prev => [...prev, newList]);
+  const handleOpenProject = async (id: string) => {
+    try {
+      const { record, file: media } = await openProject(id);
+      setFile(media);
+      setConfig(withConfigDefaults(record.config));
+      setCuts(record.cuts);
+      setHistory(record.history ?? EMPTY_HISTORY);
+      setTranscript(record.transcript);
+      setOriginalDuration(record.originalDuration);
+      playheadRef.current = record.playhead;
+      setResumePlayhead(record.playhead);
+      setProjectId(record.id);
+      // Never restart a render on open; rendering is one click away from review.
+      setPhase(record.phase === 'processing' || record.phase === 'completed' ? 'review' : record.phase);
+    } catch (error) {
+      console.error("Could not open project", error);
+      alert("This project could not be opened.");
+    }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (error) {
+      console.error("Could not duplicate project", error);
+      alert("This project could not be duplicated.");
+    }
+    refreshProjects();
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (projectId === id) setProjectId(null);
+    } catch (error) {
+      console.error("Could not delete project", error);
+    }
+    refreshProjects();
+  };
+
+  const handleSaveList = async (name: string, phrases: string[]) => {
+    try {
+      const list = await createPhraseList(name, phrases);
+      setSavedLists(prev => [...prev, list]);
+      return list;
+    } catch (error) {
+      console.error("Could not save phrase list", error);
+      alert("The phrase list could not be saved.");
+      return null;
+    }
+  };
+
+  const handleUpdateList = async (list: PhraseList) => {
+    try {
+      const saved = await savePhraseList(list);
+      setSavedLists(prev => prev.map(l => l.id === saved.id ? saved : l));
+    } catch (error) {
+      console.error("Could not save phrase list", error);
+      alert("The phrase list could not be saved.");
+    }
+  };
+
+  const handleDeleteList = async (id: string) => {
+    try {
+      await deletePhraseList(id);
+      setSavedLists(prev => prev.filter(l => l.id !== id));
+      setConfig(prev => ({ ...prev, activePhraseListIds: prev.activePhraseListIds.filter(listId => listId !== id) }));
+    } catch (error) {
+      console.error("Could not delete phrase list", error);
+    }
   };
 
-  const handleDeleteList = (id: string) => {
-    setSavedLists(prev => prev.filter(l => l.id !== id));
+  const handleMergeLists = async (ids: string[], name: string) => {
+    try {
+      const merged = await mergePhraseLists(savedLists.filter(l => ids.includes(l.id)), name);
+      setSavedLists(prev => [...prev, merged]);
+    } catch (error) {
+      console.error("Could not merge phrase lists", error);
+      alert("The phrase lists could not be merged.");
+    }
+  };
+
+  const handleImportLists = async (lists: Pick<PhraseList, 'name' | 'phrases'>[]) => {
+    try {
+      const created = await Promise.all(lists.map(l => createPhraseList(l.name, l.phrases)));
+      setSavedLists(prev => [...prev, ...created]);
+    } catch (error) {
+      console.error("Could not import phrase lists", error);
+      alert("The phrase lists could not be imported.");
+    }
+  };
+
+  // Unsaved sessions get an id of their own; a saved project keeps one entry however often it is rendered
+  const handleReport = (report: EditingReport) => {
+    const session = buildCoachingSession(
+      projectId ?? `session-${report.createdAt}`,
+      config.speaker,
+      file?.name ?? 'Untitled video',
+      cutsRef.current,
+      report,
+      calculateMetrics()
+    );
+    saveCoachingSession(session).catch(error => console.warn("Could not save coaching history", error));
+  };
+
+  const handleDeleteCoachingSession = async (id: string) => {
+    try {
+      await deleteCoachingSession(id);
+    } catch (error) {
+      console.error("Could not delete coaching session", error);
+    }
+    refreshCoachingSessions();
   };
 
   const calculateMetrics = (): ProcessingMetrics => {
-    const acceptedCuts = cuts.filter(c => c.status === 'accepted');
-    const timeSaved = acceptedCuts.reduce((acc, curr) => acc + (curr.end - curr.start), 0);
+    const removed = normalizeCuts(cuts, originalDuration, config.normalization);
+    const timeSaved = totalRemoved(removed);
     return {
       originalDuration,
       finalDuration: originalDuration - timeSaved,
-      cutsCount: acceptedCuts.length,
+      cutsCount: cuts.filter(c => c.status === 'accepted').length,
       timeSaved
     };
   };
@@ -150,16 +438,25 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-slate-950 text-slate-50 font-sans selection:bg-indigo-500/30">
       
       {/* Navbar */}
-      <header className="fixed top-0 left-0 right-0 h-16 bg-slate-950/80 backdrop-blur-md border-b border-slate-800 z-50 flex items-center justify-center lg:justify-between px-6 lg:px-12">
+      <header className="fixed top-0 left-0 right-0 h-16 bg-slate-950/80 backdrop-blur-md border-b border-slate-800 z-50 flex items-center justify-between px-6 lg:px-12">
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 bg-gradient-to-tr from-indigo-600 to-cyan-500 rounded-lg flex items-center justify-center">
              <span className="font-bold text-white text-lg">C</span>
           </div>
           <span className="font-bold text-xl tracking-tight">ClarityCut <span className="text-indigo-400">AI</span></span>
         </div>
-        <div className="hidden lg:flex items-center gap-4 text-sm text-slate-400">
+        <div className="flex items-center gap-4 text-sm text-slate-400">
+           {phase === 'upload' && (
+             <button
+               onClick={() => setShowCoaching(v => !v)}
+               className={`flex items-center gap-2 px-3 py-1 rounded-full border transition-colors ${showCoaching ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 hover:text-white'}`}
+             >
+               <Users className="w-4 h-4" />
+               Speaker Coaching
+             </button>
+           )}
            {phase !== 'upload' && (
-             <div className="flex items-center gap-2 px-3 py-1 bg-slate-900 rounded-full border border-slate-800">
+             <div className="hidden lg:flex items-center gap-2 px-3 py-1 bg-slate-900 rounded-full border border-slate-800">
                <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
                {phase === 'analyzing' ? 'Analyzing...' : phase === 'review' ? 'Review Mode' : phase === 'processing' ? 'Rendering...' : 'Complete'}
              </div>
@@ -170,7 +467,15 @@ const App: React.FC = () => {
       {/* Main Content */}
       <main className="pt-24 pb-12 px-4 sm:px-6 lg:px-8 max-w-[1600px] mx-auto min-h-screen flex flex-col">
         
-        {phase === 'upload' && (
+        {phase === 'upload' && showCoaching && (
+          <CoachingDashboard
+            sessions={coachingSessions}
+            onDeleteSession={handleDeleteCoachingSession}
+            onClose={() => setShowCoaching(false)}
+          />
+        )}
+
+        {phase === 'upload' && !showCoaching && (
           <UploadPhase 
             onFileSelect={setFile} 
             config={config} 
@@ -178,32 +483,41 @@ const App: React.FC = () => {
             onStartAnalysis={handleStartAnalysis}
             savedLists={savedLists}
             onSaveList={handleSaveList}
+            onUpdateList={handleUpdateList}
             onDeleteList={handleDeleteList}
+            onMergeLists={handleMergeLists}
+            onImportLists={handleImportLists}
+            projects={projects}
+            onOpenProject={handleOpenProject}
+            onDuplicateProject={handleDuplicateProject}
+            onDeleteProject={handleDeleteProject}
+            speakers={listSpeakers(coachingSessions).filter(name => name !== UNNAMED_SPEAKER)}
           />
         )}
 
         {phase === 'analyzing' && (
-           <div className="flex-1 flex flex-col items-center justify-center space-y-6 animate-fade-in">
-             <div className="relative">
-               <div className="w-16 h-16 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
-               <div className="absolute inset-0 flex items-center justify-center">
-                 <Loader2 className="w-8 h-8 text-indigo-400 animate-pulse" />
-               </div>
-             </div>
-             <div className="text-center space-y-2">
-                <h2 className="text-2xl font-bold text-white">Analyzing Content</h2>
-                <p className="text-slate-400">Detecting speech patterns, pauses, and filler words...</p>
-             </div>
-           </div>
+          <AnalysisProgressPanel progress={analysis} onCancel={handleCancelAnalysis} />
         )}
 
         {phase === 'review' && (
           <ReviewPhase 
+            file={file}
             fileUrl={fileUrl}
+            transcript={transcript}
             cuts={cuts}
-            setCuts={setCuts}
+            normalization={config.normalization}
+            audioJoins={config.audioJoins}
+            onEditCuts={editCuts}
+            history={history}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onHistoryTravel={handleHistoryTravel}
+            initialTime={resumePlayhead}
+            onTimeChange={handlePlayheadChange}
             onConfirm={handleConfirmCuts}
-            onCancel={() => setPhase('upload')}
+            onCancel={analysis ? handleCancelAnalysis : () => setPhase('upload')}
+            analysis={analysis}
+            onCancelAnalysis={handleCancelAnalysis}
           />
         )}
 
@@ -211,10 +525,13 @@ const App: React.FC = () => {
           <ProcessPhase 
             metrics={calculateMetrics()}
             cuts={cuts}
+            transcript={transcript}
             config={config}
+            setConfig={setConfig}
             onReset={handleReset}
             fileUrl={fileUrl}
             file={file}
+            onReport={handleReport}
           />
         )}
 
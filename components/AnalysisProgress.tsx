@@ -0,0 +1,84 @@
+import React from 'react';
+import { AudioWaveform, Captions, Loader2, ScanSearch, Tags, X } from 'lucide-react';
+import { Button } from './Button';
+import { AnalysisProgress, AnalysisStage } from '../services/analysisService';
+
+const STAGES: { stage: AnalysisStage; label: string; icon: React.ElementType }[] = [
+  { stage: 'decode', label: 'Decoding audio', icon: AudioWaveform },
+  { stage: 'transcribe', label: 'Transcribing speech', icon: Captions },
+  { stage: 'detect', label: 'Detecting cuts', icon: ScanSearch },
+  { stage: 'classify', label: 'Classifying', icon: Tags }
+];
+
+const formatEta = (seconds: number | null): string => {
+  if (seconds === null) return 'Estimating time left...';
+  if (seconds < 10) return 'Almost done';
+  if (seconds < 60) return `About ${Math.round(seconds / 5) * 5} s left`;
+  return `About ${Math.round(seconds / 60)} min left`;
+};
+
+interface AnalysisProgressProps {
+  progress: AnalysisProgress | null;
+  onCancel: () => void;
+}
+
+/** Full-page progress shown until the first cuts are ready for review. */
+export const AnalysisProgressPanel: React.FC<AnalysisProgressProps> = ({ progress, onCancel }) => {
+  const current = STAGES.findIndex(s => s.stage === (progress?.stage ?? 'decode'));
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-6 animate-fade-in">
+      <div className="relative">
+        <div className="w-16 h-16 border-4 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 text-indigo-400 animate-pulse" />
+        </div>
+      </div>
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-bold text-white">Analyzing Content</h2>
+        <p className="text-slate-400">Cuts appear for review as soon as the first ones are found.</p>
+      </div>
+
+      <div className="w-full max-w-md space-y-4">
+        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${Math.round((progress?.overall ?? 0) * 100)}%` }} />
+        </div>
+        <ul className="space-y-2">
+          {STAGES.map(({ stage, label, icon: Icon }, i) => (
+            <li
+              key={stage}
+              className={`flex items-center text-sm ${i < current ? 'text-slate-500' : i === current ? 'text-white' : 'text-slate-600'}`}
+            >
+              <Icon className={`w-4 h-4 mr-3 ${i === current ? 'text-indigo-400' : ''}`} />
+              {label}
+              {i === current && <Loader2 className="w-3 h-3 ml-2 animate-spin text-indigo-400" />}
+            </li>
+          ))}
+        </ul>
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-500">{formatEta(progress?.eta ?? null)}</span>
+          <Button variant="secondary" onClick={onCancel}>Cancel</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/** Slim bar shown in the review while later stages are still running. */
+export const AnalysisProgressBar: React.FC<AnalysisProgressProps> = ({ progress, onCancel }) => {
+  const stage = STAGES.find(s => s.stage === (progress?.stage ?? 'decode'))!;
+
+  return (
+    <div className="flex items-center gap-3 shrink-0 px-3 py-2 bg-slate-900 border border-slate-800 rounded-lg text-xs">
+      <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-400 shrink-0" />
+      <span className="text-slate-300 shrink-0">{stage.label}...</span>
+      <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${Math.round((progress?.overall ?? 0) * 100)}%` }} />
+      </div>
+      <span className="text-slate-500 shrink-0">{formatEta(progress?.eta ?? null)}</span>
+      <button onClick={onCancel} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Cancel analysis">
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { CategoryRule, DetectedCutType } from '../types';
+import { DEFAULT_CATEGORY_RULES } from '../services/reviewRulesService';
+
+interface CategoryRulesEditorProps {
+  rules: Record<DetectedCutType, CategoryRule>;
+  onChange: (rules: Record<DetectedCutType, CategoryRule>) => void;
+}
+
+const CATEGORIES: { type: DetectedCutType; label: string }[] = [
+  { type: 'filler', label: 'Filler' },
+  { type: 'cliche', label: 'Cliché' },
+  { type: 'stutter', label: 'Stutter' },
+  { type: 'repetition', label: 'Repeat' },
+  { type: 'false-start', label: 'False start' },
+  { type: 'silence', label: 'Silence' },
+  { type: 'custom', label: 'Custom' },
+];
+
+// Confidences are edited as percentages, durations in seconds
+const COLUMNS: { key: keyof CategoryRule; label: string; title: string; percent: boolean }[] = [
+  { key: 'minConfidence', label: 'Min %', title: 'Discard detections below this confidence', percent: true },
+  { key: 'minDuration', label: 'Min s', title: 'Discard detections shorter than this', percent: false },
+  { key: 'maxDuration', label: 'Max s', title: 'Discard detections longer than this (0 = no limit)', percent: false },
+  { key: 'autoAcceptAbove', label: 'Accept ≥', title: 'Start accepted at or above this confidence', percent: true },
+  { key: 'autoRejectBelow', label: 'Reject <', title: 'Start rejected below this confidence', percent: true },
+];
+
+/**
+ * Per-category sensitivity and auto-review bands. Cuts between the reject and
+ * accept bands start as pending, so reviewers only see the borderline calls.
+ */
+export const CategoryRulesEditor: React.FC<CategoryRulesEditorProps> = ({ rules, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const update = (type: DetectedCutType, key: keyof CategoryRule, raw: string, percent: boolean) => {
+    const parsed = Math.max(0, Number(raw) || 0);
+    const value = percent ? Math.min(100, parsed) / 100 : parsed;
+    onChange({ ...rules, [type]: { ...rules[type], [key]: value } });
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-800">
+      <button onClick={() => setOpen(o => !o)} className="w-full flex items-center justify-between text-sm font-medium text-slate-300">
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-indigo-400" />
+          Sensitivity & Auto-review
+        </span>
+        <ChevronDown className={`w-4 h-4 text-slate-500 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2 animate-fade-in">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500">
+                  <th className="text-left font-medium pb-1"></th>
+                  {COLUMNS.map(col => (
+                    <th key={col.key} className="font-medium pb-1 px-0.5" title={col.title}>{col.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {CATEGORIES.map(({ type, label }) => (
+                  <tr key={type}>
+                    <td className="text-slate-300 pr-1 py-0.5">{label}</td>
+                    {COLUMNS.map(col => (
+                      <td key={col.key} className="px-0.5 py-0.5">
+                        <input
+                          type="number"
+                          min={0}
+                          max={col.percent ? 100 : undefined}
+                          step={col.percent ? 5 : 0.1}
+                          value={col.percent ? Math.round(rules[type][col.key] * 100) : rules[type][col.key]}
+                          onChange={(e) => update(type, col.key, e.target.value, col.percent)}
+                          className="w-full min-w-[3rem] bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-white font-mono focus:outline-none focus:border-indigo-500"
+                          title={col.title}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-between items-center text-[10px] text-slate-500">
+            <span>Between the bands, cuts wait as pending for your review.</span>
+            <button onClick={() => onChange(DEFAULT_CATEGORY_RULES)} className="text-indigo-400 hover:text-indigo-300">
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, TrendingDown, TrendingUp, Trash2, Users } from 'lucide-react';
+import { Button } from './Button';
+import { CoachingSession } from '../types';
+import { listSpeakers, summarizeByWeek, totalFillerWords, WeeklyCoachingSummary } from '../services/coachingHistoryService';
+
+const formatWeek = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+interface WeeklyChartProps {
+  title: string;
+  unit: string;
+  weeks: WeeklyCoachingSummary[];
+  value: (week: WeeklyCoachingSummary) => number;
+  color: string; // Tailwind background class for the bars
+}
+
+// One bar per week; weeks without a session leave a gap rather than a zero
+const WeeklyChart: React.FC<WeeklyChartProps> = ({ title, unit, weeks, value, color }) => {
+  const recorded = weeks.filter(w => w.sessions > 0);
+  const max = Math.max(...recorded.map(value), 0);
+  // Lower is better for every habit charted here
+  const change = recorded.length > 1 ? value(recorded[recorded.length - 1]) - value(recorded[0]) : null;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="text-xs uppercase tracking-wider text-slate-500">{title}</h4>
+          <p className="text-2xl font-bold text-white">
+            {recorded.length > 0 ? value(recorded[recorded.length - 1]).toFixed(1) : '–'}
+            <span className="text-xs font-normal text-slate-500 ml-1">{unit}</span>
+          </p>
+        </div>
+        {change !== null && Math.abs(change) >= 0.05 && (
+          <span className={`flex items-center gap-1 text-xs font-medium ${change < 0 ? 'text-green-400' : 'text-amber-400'}`} title="Latest week compared with the first">
+            {change < 0 ? <TrendingDown className="w-3.5 h-3.5" /> : <TrendingUp className="w-3.5 h-3.5" />}
+            {change > 0 ? '+' : ''}{change.toFixed(1)}
+          </span>
+        )}
+      </div>
+      <div className="flex items-end gap-1 h-24">
+        {weeks.map(week => (
+          <div
+            key={week.weekStart}
+            className={`flex-1 rounded-t ${week.sessions > 0 ? `${color} min-h-[2px]` : ''}`}
+            style={{ height: week.sessions > 0 && max > 0 ? `${(value(week) / max) * 100}%` : 0 }}
+            title={week.sessions > 0
+              ? `Week of ${formatWeek(week.weekStart)}: ${value(week).toFixed(2)} ${unit} over ${week.sessions} ${week.sessions === 1 ? 'video' : 'videos'}`
+              : `Week of ${formatWeek(week.weekStart)}: no videos`}
+          />
+        ))}
+      </div>
+      {weeks.length > 0 && (
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <span>{formatWeek(weeks[0].weekStart)}</span>
+          {weeks.length > 1 && <span>{formatWeek(weeks[weeks.length - 1].weekStart)}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CoachingDashboardProps {
+  sessions: CoachingSession[];
+  onDeleteSession: (id: string) => void;
+  onClose: () => void;
+}
+
+/** Each speaker's filler, cliché and pause habits across their processed videos, week by week. */
+export const CoachingDashboard: React.FC<CoachingDashboardProps> = ({ sessions, onDeleteSession, onClose }) => {
+  const speakers: string[] = useMemo(() => listSpeakers(sessions), [sessions]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const speaker = selected && speakers.includes(selected) ? selected : speakers[0] ?? null;
+
+  const speakerSessions: CoachingSession[] = useMemo(
+    () => sessions.filter(s => s.speaker === speaker),
+    [sessions, speaker]
+  );
+  const weeks: WeeklyCoachingSummary[] = useMemo(() => summarizeByWeek(speakerSessions), [speakerSessions]);
+  const fillerWords: { word: string; count: number }[] = useMemo(() => totalFillerWords(speakerSessions).slice(0, 10), [speakerSessions]);
+
+  return (
+    <div className="max-w-5xl mx-auto w-full animate-fade-in space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2">
+            <Users className="w-6 h-6 text-indigo-400" />
+            Speaker Coaching
+          </h2>
+          <p className="text-sm text-slate-400">Every processed video is recorded here under its speaker, so improvement shows week by week.</p>
+        </div>
+        <Button variant="secondary" onClick={onClose}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+      </div>
+
+      {speakers.length === 0 ? (
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl p-10 text-center text-slate-400">
+          No videos yet. Enter a speaker name before analyzing, then process the video to start their history.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {speakers.map(name => (
+              <button
+                key={name}
+                onClick={() => setSelected(name)}
+                className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                  name === speaker ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-white'
+                }`}
+              >
+                {name}
+                <span className="ml-1.5 text-xs opacity-70">{sessions.filter(s => s.speaker === name).length}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <WeeklyChart title="Filler words" unit="per min" weeks={weeks} value={w => w.fillersPerMinute} color="bg-amber-500/80" />
+            <WeeklyChart title="Clichés" unit="per min" weeks={weeks} value={w => w.clichesPerMinute} color="bg-purple-500/80" />
+            <WeeklyChart title="Long pauses" unit="per min" weeks={weeks} value={w => w.pausesPerMinute} color="bg-cyan-500/80" />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Most used filler words */}
+            <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 space-y-2">
+              <h4 className="text-xs uppercase tracking-wider text-slate-500">Most used fillers</h4>
+              {fillerWords.length === 0 && <p className="text-xs text-slate-500">No filler words detected yet.</p>}
+              <ol className="space-y-1">
+                {fillerWords.map(f => (
+                  <li key={f.word} className="flex justify-between text-sm">
+                    <span className="text-slate-200">"{f.word}"</span>
+                    <span className="font-mono text-slate-400">{f.count}×</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {/* Videos */}
+            <div className="md:col-span-2 bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-[10px] uppercase tracking-wider text-slate-500 border-b border-slate-800">
+                    <th className="text-left font-medium px-4 py-2">Video</th>
+                    <th className="text-right font-medium px-2 py-2">Length</th>
+                    <th className="text-right font-medium px-2 py-2">Fillers</th>
+                    <th className="text-right font-medium px-2 py-2">Clichés</th>
+                    <th className="text-right font-medium px-2 py-2" title="Detected pauses, with the average length">Pauses</th>
+                    <th className="px-2 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800">
+                  {[...speakerSessions].reverse().map(session => (
+                    <tr key={session.id} className="hover:bg-slate-800/40">
+                      <td className="px-4 py-2 min-w-0">
+                        <p className="text-slate-200 truncate max-w-[14rem]" title={session.title}>{session.title}</p>
+                        <p className="text-[10px] text-slate-500">{new Date(session.recordedAt).toLocaleDateString()}</p>
+                      </td>
+                      <td className="text-right px-2 py-2 font-mono text-slate-400">{(session.metrics.originalDuration / 60).toFixed(1)}m</td>
+                      <td className="text-right px-2 py-2 font-mono text-slate-300">{session.counts.filler ?? 0}</td>
+                      <td className="text-right px-2 py-2 font-mono text-slate-300">{session.counts.cliche ?? 0}</td>
+                      <td className="text-right px-2 py-2 font-mono text-slate-300">
+                        {session.pauses.count}
+                        {session.pauses.count > 0 && <span className="text-slate-500"> · {(session.pauses.seconds / session.pauses.count).toFixed(1)}s</span>}
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        <button
+                          onClick={() => {
+                            if (window.confirm("Remove this video from the coaching history?")) onDeleteSession(session.id);
+                          }}
+                          className="p-1.5 text-slate-500 hover:text-red-400 hover:bg-red-900/20 rounded transition-colors"
+                          title="Remove from history"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
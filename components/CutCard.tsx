@@ -0,0 +1,105 @@
+import React from 'react';
+import { Play, Check, X as XIcon } from 'lucide-react';
+import { CutEvent, SilenceHandling, SilenceMode } from '../types';
+import { keptPause } from '../services/cutListService';
+import { getCutBadgeStyles } from './cutStyles';
+
+// Stable callbacks shared by every card, so a card only re-renders when its own props change
+export interface CutCardActions {
+  select: (id: string) => void;
+  preview: (cut: CutEvent) => void;
+  setStatus: (cut: CutEvent, status: 'accepted' | 'rejected') => void;
+  setSilenceMode: (cut: CutEvent, mode: SilenceMode) => void;
+}
+
+interface CutCardProps {
+  cut: CutEvent;
+  startLabel: string;
+  isSelected: boolean;
+  isActive: boolean;
+  silence: SilenceHandling;
+  actions: CutCardActions;
+}
+
+/** One entry in the review sidebar's cut list. */
+export const CutCard: React.FC<CutCardProps> = React.memo(({ cut, startLabel, isSelected, isActive, silence, actions }: CutCardProps) => (
+  <div
+    onClick={() => actions.select(cut.id)}
+    className={`p-3 rounded-lg border transition-all duration-200 cursor-pointer ${
+       isSelected ? 'bg-indigo-900/30 border-indigo-400/70 ring-1 ring-indigo-400/40 shadow-lg'
+       : isActive ? 'bg-indigo-900/20 border-indigo-500/50 ring-1 ring-indigo-500/20 shadow-lg' : 'bg-slate-800 border-slate-700 hover:border-slate-600'
+    } ${cut.status === 'rejected' ? 'opacity-60' : ''} ${cut.status === 'pending' ? 'border-dashed' : ''}`}
+  >
+    <div className="flex justify-between items-start mb-2">
+       <div className="flex items-center gap-2">
+          <span className={`px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider ${getCutBadgeStyles(cut.type)}`}>
+            {cut.type}
+          </span>
+          <span className="font-medium text-slate-200 text-sm">"{cut.word}"</span>
+          {cut.type === 'custom' && (
+            <span className="text-[10px] text-slate-500 truncate max-w-[7rem]" title="Phrase list">
+              {cut.phraseList ?? 'Custom phrase'}
+            </span>
+          )}
+       </div>
+       <div className="flex items-center gap-2">
+          {cut.status === 'pending' && (
+            <span className="text-[10px] font-semibold text-amber-400" title={`${Math.round(cut.confidence * 100)}% confidence`}>PENDING</span>
+          )}
+          <span className="text-xs font-mono text-slate-500">{startLabel}</span>
+       </div>
+    </div>
+
+    {cut.rationale && (
+      <p className="text-xs text-slate-400 line-clamp-2" title={cut.rationale}>{cut.rationale}</p>
+    )}
+
+    <div className="flex items-center justify-between mt-3">
+       <button
+         onClick={() => actions.preview(cut)}
+         className="flex items-center text-xs text-indigo-400 hover:text-indigo-300 font-medium"
+       >
+         <Play className="w-3 h-3 mr-1" /> Preview
+       </button>
+
+       {cut.type === 'silence' && (
+         <div className="flex rounded overflow-hidden border border-slate-700 text-[10px]">
+           {(['remove', 'shorten'] as SilenceMode[]).map(mode => (
+             <button
+               key={mode}
+               onClick={(e) => { e.stopPropagation(); actions.setSilenceMode(cut, mode); }}
+               className={`px-1.5 py-0.5 ${(cut.silenceMode ?? silence.mode) === mode ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}
+               title={mode === 'shorten' ? `Keep a ${keptPause(cut.end - cut.start, silence).toFixed(2)}s pause` : 'Remove the whole pause'}
+             >
+               {mode === 'shorten' ? `Keep ${keptPause(cut.end - cut.start, silence).toFixed(1)}s` : 'Remove'}
+             </button>
+           ))}
+         </div>
+       )}
+
+       <div className="flex gap-2">
+          {/* Reject Button */}
+          <button
+             onClick={() => actions.setStatus(cut, 'rejected')}
+             className={`p-1.5 rounded transition-colors ${
+               cut.status === 'rejected' ? 'bg-red-500/20 text-red-400' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+             }`}
+             title="Keep Original"
+          >
+            <XIcon className="w-4 h-4" />
+          </button>
+
+          {/* Accept Button */}
+          <button
+             onClick={() => actions.setStatus(cut, 'accepted')}
+             className={`p-1.5 rounded transition-colors ${
+               cut.status === 'accepted' ? 'bg-green-500/20 text-green-400' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+             }`}
+             title="Accept Cut"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+       </div>
+    </div>
+  </div>
+));
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Check, Filter, X as XIcon } from 'lucide-react';
+import { CutType } from '../types';
+import { CutFilter, EMPTY_FILTER, isFilterActive } from '../services/cutFilterService';
+import { getCutBadgeStyles } from './cutStyles';
+
+interface CutFilterBarProps {
+  filter: CutFilter;
+  onChange: (filter: CutFilter) => void;
+  matchCount: number;
+  totalCount: number;
+  onBulkAction: (status: 'accepted' | 'rejected') => void;
+}
+
+const TYPES: CutType[] = ['filler', 'cliche', 'stutter', 'repetition', 'false-start', 'silence', 'custom', 'manual'];
+
+/**
+ * Filters the cut list and timeline markers, and accepts or rejects every
+ * matching cut in one step.
+ */
+export const CutFilterBar: React.FC<CutFilterBarProps> = ({ filter, onChange, matchCount, totalCount, onBulkAction }) => {
+  const active = isFilterActive(filter);
+
+  const toggleType = (type: CutType) => {
+    onChange({
+      ...filter,
+      types: filter.types.includes(type) ? filter.types.filter(t => t !== type) : [...filter.types, type]
+    });
+  };
+
+  const setConfidence = (key: 'minConfidence' | 'maxConfidence', percent: string) => {
+    const value = Math.max(0, Math.min(100, Number(percent) || 0)) / 100;
+    onChange({ ...filter, [key]: value });
+  };
+
+  return (
+    <div className="p-3 border-b border-slate-800 space-y-2 text-xs">
+      <div className="flex flex-wrap gap-1">
+        {TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`px-1.5 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider transition-opacity ${getCutBadgeStyles(type)} ${
+              filter.types.length === 0 || filter.types.includes(type) ? 'opacity-100' : 'opacity-30'
+            } ${filter.types.includes(type) ? 'ring-1 ring-white/40' : ''}`}
+          >
+            {type}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Filter className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="text"
+            value={filter.word}
+            onChange={(e) => onChange({ ...filter, word: e.target.value })}
+            placeholder="Word or phrase"
+            className="w-full bg-slate-800 border border-slate-700 rounded pl-6 pr-2 py-1 text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+          />
+        </div>
+        <select
+          value={filter.status}
+          onChange={(e) => onChange({ ...filter, status: e.target.value as CutFilter['status'] })}
+          className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-1"
+        >
+          <option value="all">Any status</option>
+          <option value="accepted">Accepted</option>
+          <option value="rejected">Rejected</option>
+          <option value="pending">Pending</option>
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 text-slate-400">
+        <span>Confidence</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(filter.minConfidence * 100)}
+          onChange={(e) => setConfidence('minConfidence', e.target.value)}
+          className="w-14 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-white font-mono"
+          title="At least (%)"
+        />
+        <span>to below</span>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(filter.maxConfidence * 100)}
+          onChange={(e) => setConfidence('maxConfidence', e.target.value)}
+          className="w-14 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-white font-mono"
+          title="Below (%); 100 includes everything"
+        />
+        <span>%</span>
+      </div>
+
+      {active && (
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <span className="text-slate-400">
+            {matchCount} of {totalCount} match
+            <button onClick={() => onChange(EMPTY_FILTER)} className="ml-2 text-indigo-400 hover:text-indigo-300">Clear</button>
+          </span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => onBulkAction('rejected')}
+              disabled={matchCount === 0}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-red-500/15 text-red-300 hover:bg-red-500/25 disabled:opacity-40"
+            >
+              <XIcon className="w-3 h-3" /> Reject all
+            </button>
+            <button
+              onClick={() => onBulkAction('accepted')}
+              disabled={matchCount === 0}
+              className="flex items-center gap-1 px-2 py-1 rounded bg-green-500/15 text-green-300 hover:bg-green-500/25 disabled:opacity-40"
+            >
+              <Check className="w-3 h-3" /> Accept all
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { ChevronDown, Ruler } from 'lucide-react';
+import { CutNormalization } from '../types';
+import { DEFAULT_NORMALIZATION } from '../services/cutListService';
+
+interface CutNormalizationEditorProps {
+  value: CutNormalization;
+  onChange: (value: CutNormalization) => void;
+}
+
+type NumericField = Exclude<keyof CutNormalization, 'silence'>;
+
+const FIELDS: { key: NumericField; label: string; title: string }[] = [
+  { key: 'padBefore', label: 'Pad before', title: 'Seconds left in at the start of every cut' },
+  { key: 'padAfter', label: 'Pad after', title: 'Seconds left in at the end of every cut' },
+  { key: 'mergeGap', label: 'Join gaps under', title: 'Cuts closer together than this become one' },
+  { key: 'minKeptSegment', label: 'Min kept segment', title: 'Kept fragments shorter than this are removed too' },
+];
+
+/**
+ * How accepted cuts are tidied before preview and export: padding around each
+ * cut, joining near neighbours, and dropping fragments too short to hear.
+ */
+export const CutNormalizationEditor: React.FC<CutNormalizationEditorProps> = ({ value, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const update = (key: NumericField, raw: string) => {
+    onChange({ ...value, [key]: Math.max(0, Number(raw) || 0) });
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-800">
+      <button onClick={() => setOpen(o => !o)} className="w-full flex items-center justify-between text-sm font-medium text-slate-300">
+        <span className="flex items-center gap-2">
+          <Ruler className="w-4 h-4 text-indigo-400" />
+          Cut Padding & Cleanup
+        </span>
+        <ChevronDown className={`w-4 h-4 text-slate-500 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-2 animate-fade-in">
+          <div className="grid grid-cols-2 gap-2">
+            {FIELDS.map(field => (
+              <label key={field.key} className="text-xs text-slate-400 space-y-1" title={field.title}>
+                <span>{field.label} (s)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={value[field.key]}
+                  onChange={(e) => update(field.key, e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-700 rounded px-1.5 py-1 text-white font-mono focus:outline-none focus:border-indigo-500"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-between items-center text-[10px] text-slate-500">
+            <span>Applied to the preview, metrics, render and edit lists alike.</span>
+            <button onClick={() => onChange({ ...DEFAULT_NORMALIZATION, silence: value.silence })} className="text-indigo-400 hover:text-indigo-300">
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import { ClipboardList } from 'lucide-react';
+import { Button } from './Button';
+import { EditingReport } from '../types';
+import { CUT_TYPE_LABELS, REPORT_FILES, ReportFormat } from '../services/reportService';
+import { getCutHex } from './cutStyles';
+
+const formatClock = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface EditingReportPanelProps {
+  report: EditingReport;
+  speaker: string;
+  onExport: (format: ReportFormat) => void;
+}
+
+/** The numbers behind the edit, laid out as feedback for the speaker. */
+export const EditingReportPanel: React.FC<EditingReportPanelProps> = ({ report, speaker, onExport }) => {
+  const maxRate = Math.max(...report.fillerRate.map(b => b.perMinute), 0);
+  const maxSeconds = Math.max(...report.byType.map(t => t.seconds), 0);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-white font-medium flex items-center gap-2">
+            <ClipboardList className="w-4 h-4 text-indigo-400" />
+            Coaching report
+          </h3>
+          <p className="text-xs text-slate-500">
+            What was removed and why, to share with the speaker.
+            {speaker.trim() && ` Saved to ${speaker.trim()}'s coaching history.`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(REPORT_FILES) as ReportFormat[]).map(format => (
+            <Button key={format} variant="secondary" onClick={() => onExport(format)} className="text-xs px-3 py-1.5">
+              {REPORT_FILES[format].label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Removed by type */}
+        <div className="space-y-2">
+          <h4 className="text-xs uppercase tracking-wider text-slate-500">Removed by type</h4>
+          {report.byType.length === 0 && <p className="text-xs text-slate-500">Nothing was removed.</p>}
+          {report.byType.map(t => (
+            <div key={t.type} className="text-xs">
+              <div className="flex justify-between text-slate-300 mb-1">
+                <span>{CUT_TYPE_LABELS[t.type]} <span className="text-slate-500">× {t.count}</span></span>
+                <span className="font-mono text-slate-400">{t.seconds.toFixed(1)}s</span>
+              </div>
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full rounded-full" style={{ width: `${maxSeconds > 0 ? (t.seconds / maxSeconds) * 100 : 0}%`, backgroundColor: getCutHex(t.type) }} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Most repeated phrases */}
+        <div className="space-y-2">
+          <h4 className="text-xs uppercase tracking-wider text-slate-500">Most repeated</h4>
+          {report.topPhrases.length === 0 && <p className="text-xs text-slate-500">No repeated fillers or phrases.</p>}
+          <ol className="space-y-1">
+            {report.topPhrases.map(p => (
+              <li key={`${p.type}:${p.phrase}`} className="flex justify-between text-xs">
+                <span className="text-slate-200 truncate">"{p.phrase}" <span className="text-slate-500">{CUT_TYPE_LABELS[p.type].toLowerCase()}</span></span>
+                <span className="font-mono text-slate-400 shrink-0 ml-2">{p.count}×</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {/* Filler rate over time */}
+        <div className="space-y-2">
+          <h4 className="text-xs uppercase tracking-wider text-slate-500">Filler words per minute</h4>
+          <div className="flex items-end gap-0.5 h-20">
+            {report.fillerRate.map(b => (
+              <div
+                key={b.start}
+                className="flex-1 bg-indigo-500/70 hover:bg-indigo-400 rounded-t min-h-[2px]"
+                style={{ height: `${maxRate > 0 ? (b.perMinute / maxRate) * 100 : 0}%` }}
+                title={`${formatClock(b.start)}–${formatClock(b.end)}: ${b.perMinute.toFixed(1)} per minute`}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] font-mono text-slate-500">
+            <span>0:00</span>
+            <span>{formatClock(report.originalDuration)}</span>
+          </div>
+        </div>
+
+        {/* Pace and pauses */}
+        <div className="space-y-4">
+          {report.wordsPerMinute && (
+            <div className="space-y-1">
+              <h4 className="text-xs uppercase tracking-wider text-slate-500">Speaking rate</h4>
+              <p className="text-sm text-slate-200">
+                {report.wordsPerMinute.before.toFixed(0)} <span className="text-slate-500">→</span> {report.wordsPerMinute.after.toFixed(0)} <span className="text-xs text-slate-500">words per minute</span>
+              </p>
+            </div>
+          )}
+          <div className="space-y-1">
+            <h4 className="text-xs uppercase tracking-wider text-slate-500">Longest pauses removed</h4>
+            {report.longestPauses.length === 0 && <p className="text-xs text-slate-500">No pauses were removed.</p>}
+            {report.longestPauses.map(p => (
+              <div key={p.start} className="flex justify-between text-xs">
+                <span className="font-mono text-slate-400">{formatClock(p.start)}</span>
+                <span className="text-slate-300">
+                  {p.seconds.toFixed(1)}s{p.removed < p.seconds - 0.05 && <span className="text-slate-500"> (shortened by {p.removed.toFixed(1)}s)</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
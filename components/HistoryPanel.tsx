@@ -0,0 +1,51 @@
+import React from 'react';
+import { CircleDot } from 'lucide-react';
+import { CutHistory } from '../types';
+
+interface HistoryPanelProps {
+  history: CutHistory;
+  onTravel: (position: number) => void;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Lists every edit, newest first. Clicking an entry undoes or redoes
+ * everything after it; undone entries stay listed until a new edit replaces them.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onTravel }) => {
+  const { past, future } = history;
+  // Position n means the first n commands are applied
+  const entries = [...past, ...future].map((command, i) => ({ command, position: i + 1 })).reverse();
+
+  const row = (key: string, label: string, position: number, detail?: string) => {
+    const isCurrent = position === past.length;
+    const isUndone = position > past.length;
+    return (
+      <button
+        key={key}
+        onClick={() => onTravel(position)}
+        className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+          isCurrent ? 'bg-indigo-900/30 text-white ring-1 ring-indigo-500/40' : 'hover:bg-slate-800 text-slate-300'
+        } ${isUndone ? 'opacity-40' : ''}`}
+      >
+        <CircleDot className={`w-3 h-3 shrink-0 ${isCurrent ? 'text-indigo-400' : 'text-slate-600'}`} />
+        <span className={`flex-1 truncate ${isUndone ? 'line-through' : ''}`}>{label}</span>
+        {detail && <span className="text-[10px] font-mono text-slate-500">{detail}</span>}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-3 py-2 border-b border-slate-800 text-xs text-slate-500">
+        Ctrl+Z to undo, Ctrl+Shift+Z to redo. Click an entry to jump back to it.
+      </div>
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {entries.map(({ command, position }) => row(command.id, command.label, position, formatClock(command.timestamp)))}
+        {row('initial', 'Detected cuts', 0)}
+      </div>
+    </div>
+  );
+};
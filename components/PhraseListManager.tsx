@@ -0,0 +1,262 @@
+import React, { useRef, useState } from 'react';
+import { Check, Download, FolderOpen, Merge, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { PhraseList } from '../types';
+import { exportPhraseListsCsv, exportPhraseListsJson, parsePhraseListFile } from '../services/phraseListService';
+import { saveBlob } from './download';
+
+interface PhraseListManagerProps {
+  lists: PhraseList[];
+  activeIds: string[];
+  onActiveIdsChange: (ids: string[]) => void;
+  onUpdateList: (list: PhraseList) => void;
+  onDeleteList: (id: string) => void;
+  onMergeLists: (ids: string[], name: string) => void;
+  onImportLists: (lists: Pick<PhraseList, 'name' | 'phrases'>[]) => void;
+}
+
+/**
+ * Saved phrase lists: tick any number of lists to detect their phrases, edit a
+ * list in place, merge the ticked lists, or move lists between machines as JSON or CSV.
+ */
+export const PhraseListManager: React.FC<PhraseListManagerProps> = ({
+  lists,
+  activeIds,
+  onActiveIdsChange,
+  onUpdateList,
+  onDeleteList,
+  onMergeLists,
+  onImportLists
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftPhrase, setDraftPhrase] = useState('');
+  const [mergeName, setMergeName] = useState<string | null>(null);
+
+  const activeLists = lists.filter(l => activeIds.includes(l.id));
+  const editing = lists.find(l => l.id === editingId);
+
+  const toggleActive = (id: string) => {
+    onActiveIdsChange(activeIds.includes(id) ? activeIds.filter(i => i !== id) : [...activeIds, id]);
+  };
+
+  const startEditing = (list: PhraseList) => {
+    setEditingId(list.id === editingId ? null : list.id);
+    setDraftName(list.name);
+    setDraftPhrase('');
+  };
+
+  const commitName = () => {
+    if (editing && draftName.trim() && draftName.trim() !== editing.name) {
+      onUpdateList({ ...editing, name: draftName });
+    }
+  };
+
+  const addPhrase = () => {
+    if (!editing || !draftPhrase.trim()) return;
+    onUpdateList({ ...editing, phrases: [...editing.phrases, draftPhrase] });
+    setDraftPhrase('');
+  };
+
+  const removePhrase = (index: number) => {
+    if (!editing) return;
+    onUpdateList({ ...editing, phrases: editing.phrases.filter((_, i) => i !== index) });
+  };
+
+  const handleMerge = () => {
+    if (!mergeName?.trim() || activeLists.length < 2) return;
+    onMergeLists(activeLists.map(l => l.id), mergeName.trim());
+    setMergeName(null);
+  };
+
+  // Exports the ticked lists, or every list when none is ticked
+  const handleExport = (format: 'json' | 'csv') => {
+    const selected = activeLists.length > 0 ? activeLists : lists;
+    const content = format === 'json' ? exportPhraseListsJson(selected) : exportPhraseListsCsv(selected);
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    saveBlob(new Blob([content], { type }), `claritycut-phrases.${format}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    for (const file of files) {
+      try {
+        const imported = parsePhraseListFile(await file.text(), file.name);
+        if (imported.length === 0) {
+          alert(`${file.name} contains no phrases.`);
+          continue;
+        }
+        onImportLists(imported);
+      } catch (error) {
+        console.error("Could not import phrase list", error);
+        alert(`${file.name} is not a valid phrase list (expected JSON or CSV).`);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+          <FolderOpen className="w-4 h-4 text-indigo-400" />
+          Phrase Lists
+          {activeLists.length > 0 && (
+            <span className="text-[10px] text-indigo-300 bg-indigo-500/10 px-1.5 py-0.5 rounded">
+              {activeLists.length} active
+            </span>
+          )}
+        </label>
+        <div className="flex items-center gap-1 text-xs">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"
+            title="Import lists from JSON or CSV"
+          >
+            <Upload className="w-3 h-3" /> Import
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={lists.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-50"
+            title={activeLists.length > 0 ? "Export active lists as JSON" : "Export all lists as JSON"}
+          >
+            <Download className="w-3 h-3" /> JSON
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={lists.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-50"
+            title={activeLists.length > 0 ? "Export active lists as CSV" : "Export all lists as CSV"}
+          >
+            <Download className="w-3 h-3" /> CSV
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            multiple
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto rounded-lg border border-slate-800 divide-y divide-slate-800">
+        {lists.length === 0 && (
+          <p className="p-3 text-xs text-slate-600 italic">No saved lists. Save your phrases below or import a file.</p>
+        )}
+        {lists.map(list => (
+          <div key={list.id}>
+            <div className="flex items-center gap-2 px-3 py-2 hover:bg-slate-800/40">
+              <input
+                type="checkbox"
+                checked={activeIds.includes(list.id)}
+                onChange={() => toggleActive(list.id)}
+                className="accent-indigo-500"
+              />
+              <button onClick={() => toggleActive(list.id)} className="flex-1 min-w-0 text-left text-sm text-slate-200 truncate">
+                {list.name} <span className="text-xs text-slate-500">({list.phrases.length})</span>
+              </button>
+              <button
+                onClick={() => startEditing(list)}
+                className={`p-1.5 rounded transition-colors ${editingId === list.id ? 'text-indigo-300 bg-indigo-500/10' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                title="Edit List"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete the list "${list.name}"?`)) {
+                    onDeleteList(list.id);
+                    if (editingId === list.id) setEditingId(null);
+                  }
+                }}
+                className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-900/20 rounded transition-colors"
+                title="Delete List"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            {editing?.id === list.id && (
+              <div className="px-3 pb-3 pt-1 space-y-2 bg-slate-800/20 animate-fade-in">
+                <input
+                  type="text"
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitName}
+                  onKeyDown={(e) => e.key === 'Enter' && commitName()}
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                  placeholder="List Name"
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={draftPhrase}
+                    onChange={(e) => setDraftPhrase(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addPhrase()}
+                    placeholder="Add a phrase"
+                    className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                  />
+                  <button
+                    onClick={addPhrase}
+                    disabled={!draftPhrase.trim()}
+                    className="px-2 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50 text-white"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {list.phrases.map((phrase, index) => (
+                    <span key={phrase} className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-slate-800 text-slate-200 border border-slate-700">
+                      {phrase}
+                      <button onClick={() => removePhrase(index)} className="ml-1 text-slate-400 hover:text-white">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Merge the ticked lists into a new list */}
+      {activeLists.length >= 2 && (
+        mergeName === null ? (
+          <button
+            onClick={() => setMergeName(activeLists.map(l => l.name).join(' + '))}
+            className="text-xs flex items-center gap-1 text-indigo-400 hover:text-indigo-300"
+          >
+            <Merge className="w-3 h-3" />
+            Merge the {activeLists.length} active lists into a new list
+          </button>
+        ) : (
+          <div className="flex items-center gap-2 animate-fade-in">
+            <input
+              type="text"
+              autoFocus
+              value={mergeName}
+              onChange={(e) => setMergeName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleMerge()}
+              placeholder="Merged List Name"
+              className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+            />
+            <button
+              onClick={handleMerge}
+              disabled={!mergeName.trim()}
+              className="bg-indigo-600 hover:bg-indigo-500 text-white px-2 py-1 rounded text-xs disabled:opacity-50"
+            >
+              <Check className="w-3 h-3" />
+            </button>
+            <button onClick={() => setMergeName(null)} className="text-slate-400 hover:text-white text-xs px-1">
+              Cancel
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
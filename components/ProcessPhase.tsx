@@ -1,74 +1,119 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Download, RefreshCw, Scissors, Sparkles, Play, Check, Film, Layers, Cpu } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, RefreshCw, Scissors, Sparkles, Play, Check, Film, Layers, Cpu, FileText, Captions } from 'lucide-react';
 import { Button } from './Button';
-import { ProcessingMetrics, VideoConfig, CutEvent } from '../types';
-import { generateEditingReport } from '../services/geminiService';
+import { ProcessingMetrics, VideoConfig, CutEvent, Transcript, SubtitleSettings, EditingReport } from '../types';
+import { generateEditingReport, REPORT_FILES, ReportFormat } from '../services/reportService';
+import { llmStaysOnDevice, LlmUsage, totalLlmUsage } from '../services/llmService';
+import { transcriptionStaysOnDevice } from '../services/transcriptionService';
+import { renderVideo, RenderProgress, RenderStage } from '../services/renderService';
+import { buildCues, formatSrt, formatVtt, SubtitleFormat, SubtitleTimeline } from '../services/subtitleService';
+import { detectFrameRate, EDIT_LIST_FILES, EditListFormat, FRAME_RATES, FrameRate } from '../services/editListService';
+import { saveBlob } from './download';
+import { EditingReportPanel } from './EditingReportPanel';
+import { findRemovedRange, normalizeCuts, RemovedRange } from '../services/cutListService';
 
 interface ProcessPhaseProps {
   metrics: ProcessingMetrics;
   cuts: CutEvent[];
+  transcript: Transcript | null;
   config: VideoConfig;
+  setConfig: React.Dispatch<React.SetStateAction<VideoConfig>>;
   onReset: () => void;
   fileUrl: string;
   file: File | null;
+  onReport: (report: EditingReport) => void; // once the report is ready, to record it in the coaching history
 }
 
-export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, config, onReset, fileUrl, file }) => {
+export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, transcript, config, setConfig, onReset, fileUrl, file, onReport }) => {
   const [progress, setProgress] = useState(0);
   const [isComplete, setIsComplete] = useState(false);
-  const [aiReport, setAiReport] = useState<string>('');
+  const [report, setReport] = useState<EditingReport | null>(null);
   const [loadingReport, setLoadingReport] = useState(false);
+  const [llmUsage, setLlmUsage] = useState<LlmUsage | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [stage, setStage] = useState<RenderStage>('loading');
+  const [outputBlob, setOutputBlob] = useState<Blob | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [frameRate, setFrameRate] = useState<FrameRate>(FRAME_RATES.find(r => r.label === '29.97')!);
+  const [videoSize, setVideoSize] = useState({ width: 1920, height: 1080 });
+  const [subtitleTimeline, setSubtitleTimeline] = useState<SubtitleTimeline>('edited');
   
   const videoRef = useRef<HTMLVideoElement>(null);
+  const onReportRef = useRef(onReport);
+  onReportRef.current = onReport;
 
-  // Helper to determine current stage based on progress
-  const getStageInfo = (p: number) => {
-    if (p < 20) return { label: 'Initializing Engine', icon: Cpu, detail: 'Loading video into processing buffer...' };
-    if (p < 45) return { label: 'Analyzing Audio', icon: Sparkles, detail: 'Identifying filler words and silences...' };
-    if (p < 70) return { label: 'Trimming Segments', icon: Scissors, detail: `Removing ${cuts.filter(c => c.status === 'accepted').length} detected events...` };
-    if (p < 90) return { label: 'Stitching & Encoding', icon: Layers, detail: `Reassembling as ${config.outputFormat.toUpperCase()}...` };
-    return { label: 'Finalizing', icon: Film, detail: 'Preparing download...' };
+  // Helper to describe the current render stage
+  const getStageInfo = (stage: RenderStage) => {
+    switch (stage) {
+      case 'loading': return { label: 'Initializing Engine', icon: Cpu, detail: 'Loading the in-browser encoder...' };
+      case 'reading': return { label: 'Reading Source', icon: Sparkles, detail: 'Loading video into processing buffer...' };
+      case 'encoding': return { label: 'Stitching & Encoding', icon: Layers, detail: `Removing ${cuts.filter(c => c.status === 'accepted').length} events and reassembling as ${config.outputFormat.toUpperCase()}...` };
+      default: return { label: 'Finalizing', icon: Film, detail: 'Preparing download...' };
+    }
   };
 
-  const currentStage = getStageInfo(progress);
-  const StageIcon = currentStage.icon;
+  const currentStage = getStageInfo(stage);
+  const StageIcon = renderError ? Scissors : currentStage.icon;
 
-  // Simulate rendering progress
+  // Render the edited video. Each stage owns a slice of the overall progress bar.
   useEffect(() => {
-    if (progress >= 100) {
-      if (!isComplete) setIsComplete(true);
+    if (!file) {
+      setRenderError("The source file is no longer available.");
       return;
     }
-    
-    // Varying speeds for different stages to simulate realism
-    let delay = 300;
-    let increment = Math.max(1, Math.floor(Math.random() * 5));
-
-    if (progress > 60 && progress < 80) {
-        // Slow down during "heavy" processing
-        delay = 500;
-        increment = Math.max(1, Math.floor(Math.random() * 3));
-    }
 
-    const timeout = setTimeout(() => {
-      setProgress(prev => Math.min(100, prev + increment));
-    }, delay);
+    const controller = new AbortController();
+    const stageRanges: Record<RenderStage, [number, number]> = {
+      loading: [0, 5],
+      reading: [5, 15],
+      encoding: [15, 95],
+      finalizing: [95, 100],
+    };
+
+    renderVideo(file, cuts, metrics.originalDuration, config.normalization, config.audioJoins, config.outputFormat, config.outputQuality, (p: RenderProgress) => {
+      if (controller.signal.aborted) return;
+      const [from, to] = stageRanges[p.stage];
+      setStage(p.stage);
+      setProgress(Math.floor(from + (to - from) * p.progress));
+    }, controller.signal)
+      .then(blob => {
+        if (controller.signal.aborted) return;
+        setOutputBlob(blob);
+        setProgress(100);
+        setIsComplete(true);
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error("Render failed", error);
+        setRenderError(error instanceof Error ? error.message : "Rendering failed.");
+      });
 
-    return () => clearTimeout(timeout);
-  }, [progress, isComplete]);
+    return () => controller.abort();
+  }, [file, cuts, metrics.originalDuration, config.normalization, config.audioJoins, config.outputFormat, config.outputQuality]);
 
-  // Fetch AI report when complete
+  // Build the report, narrative included, when complete
   useEffect(() => {
     if (isComplete) {
       setLoadingReport(true);
-      generateEditingReport(cuts, metrics.originalDuration)
+      generateEditingReport(cuts, transcript?.words ?? null, metrics.originalDuration, config.normalization, config.llm)
         .then(report => {
-          setAiReport(report);
+          setReport(report);
+          onReportRef.current(report);
         })
-        .finally(() => setLoadingReport(false));
+        .finally(() => {
+          setLoadingReport(false);
+          // Everything the language model was asked this session, detection included
+          const total = totalLlmUsage();
+          setLlmUsage(total.requests > 0 ? total : null);
+        });
     }
-  }, [isComplete, cuts, metrics.originalDuration]);
+  }, [isComplete, cuts, transcript, metrics.originalDuration, config.normalization, config.llm]);
+
+  // The same ranges the render removed, searched by binary search each frame
+  const removedRanges: RemovedRange[] = useMemo(
+    () => normalizeCuts(cuts, metrics.originalDuration, config.normalization),
+    [cuts, metrics.originalDuration, config.normalization]
+  );
 
   // Auto-skip logic for preview player
   useEffect(() => {
@@ -78,17 +123,13 @@ export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, confi
       if (videoRef.current && !videoRef.current.paused) {
         const time = videoRef.current.currentTime;
         
-        // Check if current time falls into any ACCEPTED cut
-        // We ensure we don't skip if we are already practically at the end of the cut to avoid stutter loops
-        const activeCut = cuts.find(c => 
-          c.status === 'accepted' && 
-          time >= c.start && 
-          time < (c.end - 0.1) 
-        );
-
-        if (activeCut) {
-          // Jump to end of cut + small buffer to ensure we clear the cut region
-          videoRef.current.currentTime = activeCut.end + 0.05;
+        // Check if current time falls into a removed range
+        // We ensure we don't skip if we are already practically at the end of the range to avoid stutter loops
+        const activeRange = findRemovedRange(removedRanges, time);
+
+        if (activeRange && time < activeRange.end - 0.1) {
+          // Jump to end of range + small buffer to ensure we clear it
+          videoRef.current.currentTime = activeRange.end + 0.05;
         }
       }
       animationFrame = requestAnimationFrame(checkTime);
@@ -99,7 +140,7 @@ export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, confi
     }
 
     return () => cancelAnimationFrame(animationFrame);
-  }, [isComplete, cuts]);
+  }, [isComplete, removedRanges]);
 
   const handlePlayPreview = () => {
     if (videoRef.current) {
@@ -111,32 +152,70 @@ export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, confi
   };
 
   const handleDownload = () => {
-    // Priority: Create a fresh URL from the original File object if available.
-    // This is robust against stale blob URLs which can cause "Network Failed" or "Connect to internet" errors in browsers.
-    if (file) {
-        const url = URL.createObjectURL(file);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `clarity_cut_optimized.${config.outputFormat}`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        
-        // Revoke after a delay to allow the download process to register the blob
-        setTimeout(() => URL.revokeObjectURL(url), 5000);
-        return;
+    if (!outputBlob) return;
+    saveBlob(outputBlob, `clarity_cut_optimized.${config.outputFormat}`);
+  };
+
+  // Read resolution and frame rate from the source so edit lists conform in the NLE
+  const handleMetadataLoaded = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    if (video.videoWidth && video.videoHeight) {
+      setVideoSize({ width: video.videoWidth, height: video.videoHeight });
     }
+    detectFrameRate(video).then(setFrameRate);
+  };
 
-    // Fallback to existing fileUrl (less reliable for downloads if state changed)
-    if (!fileUrl) return;
-    const link = document.createElement('a');
-    link.href = fileUrl;
-    link.download = `clarity_cut_optimized.${config.outputFormat}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleExportEditList = (format: EditListFormat) => {
+    const sourceName = file?.name ?? `clarity_cut_source.${config.outputFormat}`;
+    const target = EDIT_LIST_FILES[format];
+    const content = target.build(cuts, {
+      fileName: sourceName,
+      duration: metrics.originalDuration,
+      width: videoSize.width,
+      height: videoSize.height,
+      frameRate
+    }, config.normalization);
+    saveBlob(new Blob([content], { type: target.mime }), `${sourceName.replace(/\.[^.]+$/, '')}_claritycut.${target.extension}`);
   };
 
+  const updateSubtitles = (patch: Partial<SubtitleSettings>) => {
+    setConfig(prev => ({ ...prev, subtitles: { ...prev.subtitles, ...patch } }));
+  };
+
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    if (!transcript) return;
+    const cues = buildCues(transcript.words, cuts, metrics.originalDuration, config.subtitles, subtitleTimeline, config.normalization);
+    const content = format === 'srt' ? formatSrt(cues) : formatVtt(cues);
+    const base = (file?.name ?? 'clarity_cut').replace(/\.[^.]+$/, '');
+    const suffix = subtitleTimeline === 'edited' ? 'claritycut' : 'original';
+    saveBlob(new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), `${base}_${suffix}.${format}`);
+  };
+
+  const handleExportReport = (format: ReportFormat) => {
+    if (!report) return;
+    const target = REPORT_FILES[format];
+    const base = (file?.name ?? 'clarity_cut').replace(/\.[^.]+$/, '');
+    saveBlob(new Blob([target.format(report)], { type: target.mime }), `${base}_report.${format}`);
+  };
+
+  if (renderError) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in w-full max-w-2xl mx-auto text-center space-y-6">
+        <div className="w-20 h-20 rounded-full bg-red-500/10 border border-red-500/20 flex items-center justify-center">
+          <StageIcon className="w-10 h-10 text-red-400" />
+        </div>
+        <div className="space-y-2">
+          <h2 className="text-2xl font-bold text-white">Rendering Failed</h2>
+          <p className="text-sm text-slate-400">{renderError}</p>
+        </div>
+        <Button variant="secondary" onClick={onReset}>
+          <RefreshCw className="w-5 h-5 mr-2" />
+          Start Over
+        </Button>
+      </div>
+    );
+  }
+
   if (!isComplete) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in w-full max-w-2xl mx-auto text-center space-y-12">
@@ -230,6 +309,7 @@ export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, confi
             <video 
               ref={videoRef}
               src={fileUrl}
+              onLoadedMetadata={handleMetadataLoaded}
               className="w-full h-full object-contain"
               onPlay={() => setIsPlaying(true)}
               onPause={() => setIsPlaying(false)}
@@ -257,7 +337,7 @@ export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, confi
             )}
           </div>
           <p className="text-xs text-slate-500 text-center">
-            This player simulates the final edit by skipping removed segments in real-time.
+            This player skips removed segments in real-time, exactly as they were cut from the download.
           </p>
         </div>
 
@@ -296,7 +376,13 @@ export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, confi
               </div>
             ) : (
               <p className="text-sm text-slate-200 italic leading-relaxed">
-                "{aiReport}"
+                "{report?.narrative}"
+              </p>
+            )}
+            {llmUsage && (
+              <p className="mt-3 text-[10px] text-slate-500" title={`${llmUsage.inputTokens.toLocaleString()} in, ${llmUsage.outputTokens.toLocaleString()} out`}>
+                {llmUsage.requests} model {llmUsage.requests === 1 ? 'request' : 'requests'} this session
+                {llmUsage.failures > 0 && ` (${llmUsage.failures} failed)`} · {(llmUsage.inputTokens + llmUsage.outputTokens).toLocaleString()} tokens
               </p>
             )}
           </div>
@@ -319,8 +405,106 @@ export const ProcessPhase: React.FC<ProcessPhaseProps> = ({ metrics, cuts, confi
         </Button>
       </div>
 
+      {/* Coaching Report */}
+      {report && <EditingReportPanel report={report} speaker={config.speaker} onExport={handleExportReport} />}
+
+      {/* Edit Decision Lists */}
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <h3 className="text-white font-medium flex items-center gap-2">
+              <FileText className="w-4 h-4 text-indigo-400" />
+              Finish in your editor
+            </h3>
+            <p className="text-xs text-slate-500">Export the accepted cuts as an edit list referencing the original media.</p>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Frame rate
+            <select
+              value={frameRate.label}
+              onChange={(e) => setFrameRate(FRAME_RATES.find(r => r.label === e.target.value)!)}
+              className="bg-slate-800 border border-slate-700 text-white text-xs rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-1.5"
+            >
+              {FRAME_RATES.map(r => (
+                <option key={r.label} value={r.label}>{r.label} fps</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {([
+            { format: 'edl', label: 'EDL', detail: 'CMX3600 · Resolve, Avid' },
+            { format: 'fcpxml', label: 'FCPXML', detail: 'v1.10 · Final Cut Pro' },
+            { format: 'xmeml', label: 'Premiere XML', detail: 'xmeml v4 · Premiere Pro' },
+          ] as { format: EditListFormat; label: string; detail: string }[]).map(item => (
+            <Button key={item.format} variant="secondary" onClick={() => handleExportEditList(item.format)} className="flex-col h-auto py-3">
+              <span>{item.label}</span>
+              <span className="text-[10px] text-slate-400 font-normal">{item.detail}</span>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Captions */}
+      {transcript && (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <h3 className="text-white font-medium flex items-center gap-2">
+                <Captions className="w-4 h-4 text-indigo-400" />
+                Captions
+              </h3>
+              <p className="text-xs text-slate-500">Built from the transcript, with removed words dropped and times shifted to match the edit.</p>
+            </div>
+            <div className="flex rounded-lg border border-slate-700 overflow-hidden text-xs shrink-0">
+              {(['edited', 'original'] as SubtitleTimeline[]).map(t => (
+                <button
+                  key={t}
+                  onClick={() => setSubtitleTimeline(t)}
+                  className={`px-3 py-1.5 transition-colors ${subtitleTimeline === t ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {t === 'edited' ? 'Edited timeline' : 'Original timeline'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { key: 'maxCharsPerLine', label: 'Chars / line', min: 10, max: 80, step: 1 },
+              { key: 'maxLines', label: 'Lines / cue', min: 1, max: 4, step: 1 },
+              { key: 'maxCueDuration', label: 'Max cue (s)', min: 1, max: 15, step: 0.5 },
+            ].map(field => (
+              <label key={field.key} className="block">
+                <span className="block text-xs text-slate-500 mb-1">{field.label}</span>
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={config.subtitles[field.key as keyof SubtitleSettings]}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (Number.isFinite(value)) {
+                      updateSubtitles({ [field.key]: Math.min(field.max, Math.max(field.min, value)) });
+                    }
+                  }}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Button variant="secondary" onClick={() => handleExportSubtitles('srt')}>SRT</Button>
+            <Button variant="secondary" onClick={() => handleExportSubtitles('vtt')}>WebVTT</Button>
+          </div>
+        </div>
+      )}
+
       <p className="text-center text-xs text-slate-600">
-        Link valid for 24 hours. Original files are deleted automatically.
+        Rendered locally in your browser.
+        {transcriptionStaysOnDevice(config.transcription) && llmStaysOnDevice(config.llm)
+          ? ' Your video never leaves this device.'
+          : ' The audio or transcript was sent to the transcription or language model service you configured.'}
       </p>
     </div>
   );
@@ -1,22 +1,87 @@
 import React, { useRef, useState, useEffect, useMemo, useCallback } from 'react';
-import { Play, Pause, RotateCcw, RotateCw, Check, X as XIcon, Rewind, FastForward } from 'lucide-react';
-import { CutEvent } from '../types';
+import { Play, Pause, RotateCcw, RotateCw, Rewind, FastForward, Undo2, Redo2, Scissors, Combine, Trash2, Plus, Keyboard, ZoomIn, ZoomOut, Maximize2, Crosshair } from 'lucide-react';
+import { AudioJoinSettings, CutEvent, CutHistory, CutNormalization, SilenceMode, Transcript } from '../types';
+import { EditCuts } from '../services/historyService';
+import { decodeAudio, findZeroCrossing } from '../services/audioService';
+import { createCutMatcher, CutFilter, describeFilter, EMPTY_FILTER } from '../services/cutFilterService';
+import { findRemovedRange, isShortenedSilence, keptPause, nextRemovedRange, normalizeCuts, RemovedRange, Segment, totalRemoved } from '../services/cutListService';
+import { crossfadeSeconds, pickRoomTone } from '../services/audioJoinService';
+import { createCutIndex, CutIndex } from '../services/cutIndexService';
+import { AnalysisProgress } from '../services/analysisService';
+import { createPreviewAudio, PreviewAudio } from '../services/previewAudioService';
+import { clampView, followPlayhead, layoutMarkers, panView, rulerTicks, TimelineMarker, TimelineView, zoomView, ZOOM_STEP } from '../services/timelineViewService';
+import { createManualCut, getWordEdges, MIN_CUT_LENGTH, mergeCuts, snapToEdge, splitCut, trimCut } from '../services/cutEditService';
 import { Button } from './Button';
+import { Waveform } from './Waveform';
+import { getCutColor, getCutBadgeStyles } from './cutStyles';
+import { TranscriptEditor } from './TranscriptEditor';
+import { HistoryPanel } from './HistoryPanel';
+import { CutFilterBar } from './CutFilterBar';
+import { ShortcutHelp } from './ShortcutHelp';
+import { TimelineMinimap } from './TimelineMinimap';
+import { VirtualList } from './VirtualList';
+import { AnalysisProgressBar } from './AnalysisProgress';
+import { CutCard, CutCardActions } from './CutCard';
+import { findAction, formatKey, keyFromEvent, loadShortcuts, saveShortcuts, ShortcutMap, SHUTTLE_SPEEDS } from '../services/shortcutService';
 
 interface ReviewPhaseProps {
+  file: File | null;
   fileUrl: string;
+  transcript: Transcript | null;
   cuts: CutEvent[];
-  setCuts: React.Dispatch<React.SetStateAction<CutEvent[]>>;
+  normalization: CutNormalization;
+  audioJoins: AudioJoinSettings;
+  onEditCuts: EditCuts;
+  history: CutHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onHistoryTravel: (position: number) => void;
+  initialTime?: number; // playhead to restore when resuming a session
+  onTimeChange?: (time: number) => void;
   onConfirm: () => void;
   onCancel: () => void;
+  analysis?: AnalysisProgress | null; // set while later analysis stages are still running
+  onCancelAnalysis?: () => void;
+}
+
+type SnapMode = 'words' | 'zero' | 'off';
+
+// Frame length used when stepping with K held, at the most common video rate
+const FRAME_STEP = 1 / 30;
+
+// How far ahead of a removed range the playback loop starts fading out, to cover a slow frame
+const FADE_LOOKAHEAD = 0.1;
+
+// How close (in pixels) a dragged edge must come to a word edge to snap to it
+const SNAP_PIXELS = 8;
+
+const cutKey = (cut: CutEvent) => cut.id;
+
+interface TrimDraft {
+  id: string;
+  edge: 'start' | 'end';
+  start: number;
+  end: number;
 }
 
 export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
+  file,
   fileUrl,
+  transcript,
   cuts,
-  setCuts,
+  normalization,
+  audioJoins,
+  onEditCuts,
+  history,
+  onUndo,
+  onRedo,
+  onHistoryTravel,
+  initialTime = 0,
+  onTimeChange,
   onConfirm,
-  onCancel
+  onCancel,
+  analysis = null,
+  onCancelAnalysis
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
@@ -25,6 +90,7 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [activeCutId, setActiveCutId] = useState<string | null>(null);
+  const [sidebarView, setSidebarView] = useState<'events' | 'transcript' | 'history'>('events');
   
   // Scrubbing State
   const [isScrubbing, setIsScrubbing] = useState(false);
@@ -34,28 +100,103 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
   // Preview State
   const previewEndTimeRef = useRef<number | null>(null);
 
-  // Generate synthetic waveform data
-  const waveformBars = useMemo(() => {
-    const bars = [];
-    const count = 100;
-    let activity = 0.5;
-    for(let i = 0; i < count; i++) {
-         // Generate pseudo-random heights that look like audio
-         // We want some clustering to look like speech phrases
-         if (Math.random() > 0.85) activity = Math.random(); 
-         const noise = Math.random() * 0.3;
-         const baseHeight = (Math.sin(i * 0.2) + 1) / 2;
-         const value = Math.max(0.1, Math.min(1.0, (baseHeight * activity) + noise));
-         bars.push(value);
-    }
-    return bars;
-  }, []);
+  // Timeline editing: a selected cut with trim handles, and a Shift+drag range for manual cuts
+  const [selectedCutId, setSelectedCutId] = useState<string | null>(null);
+  const [snapMode, setSnapMode] = useState<SnapMode>('words');
+  const [trimDraft, setTrimDraft] = useState<TrimDraft | null>(null);
+  const trimDraftRef = useRef<TrimDraft | null>(null);
+  const [range, setRange] = useState<[number, number] | null>(null);
+  const [isSelectingRange, setIsSelectingRange] = useState(false);
+  const rangeAnchorRef = useRef(0);
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+
+  // Zoom: the timeline shows `view` rather than the whole recording
+  const [view, setView] = useState<TimelineView>({ start: 0, end: 0 });
+  const [followPlayback, setFollowPlayback] = useState(true);
+  const [timelineWidth, setTimelineWidth] = useState(0);
+  const viewSpan = view.end - view.start;
+  const toPercent = (time: number) => (viewSpan > 0 ? ((time - view.start) / viewSpan) * 100 : 0);
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  // The filter bar narrows both the cut list and the timeline markers
+  const [filter, setFilter] = useState<CutFilter>(EMPTY_FILTER);
+  const visibleCuts = useMemo(() => cuts.filter(createCutMatcher(filter)), [cuts, filter]);
+
+  // Sorted interval indexes, so per-frame lookups stay logarithmic with thousands of cuts
+  const cutIndex: CutIndex = useMemo(() => createCutIndex(cuts), [cuts]);
+  const visibleIndex: CutIndex = useMemo(() => createCutIndex(visibleCuts), [visibleCuts]);
+
+  const words = useMemo(() => transcript?.words ?? [], [transcript]);
+  const wordEdges = useMemo(() => getWordEdges(words), [words]);
+  const selectedCut: CutEvent | null = useMemo(() => cutIndex.byId(selectedCutId) ?? null, [cutIndex, selectedCutId]);
+  const nextCut: CutEvent | null = useMemo(() => (selectedCut ? cutIndex.following(selectedCut) ?? null : null), [cutIndex, selectedCut]);
+
+  // Decoded audio for zero-crossing snapping; already cached from analysis
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    decodeAudio(file)
+      .then(buffer => { if (!cancelled) setAudioBuffer(buffer); })
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Report the playhead so the session can be resumed later
+  useEffect(() => {
+    onTimeChange?.(currentTime);
+  }, [currentTime, onTimeChange]);
 
   // Toggle acceptance status of a cut
-  const toggleCutStatus = (id: string, status: 'accepted' | 'rejected') => {
-    setCuts(prev => prev.map(c => c.id === id ? { ...c, status } : c));
+  const toggleCutStatus = (cut: CutEvent, status: 'accepted' | 'rejected') => {
+    if (cut.status === status) return;
+    onEditCuts(
+      `${status === 'accepted' ? 'Accept' : 'Reject'} ${cut.type} "${cut.word}"`,
+      prev => prev.map(c => c.id === cut.id ? { ...c, status } : c)
+    );
+  };
+
+  // Per-cut override of the project's silence handling
+  const setSilenceMode = (cut: CutEvent, mode: SilenceMode) => {
+    if ((cut.silenceMode ?? normalization.silence.mode) === mode) return;
+    onEditCuts(
+      `${mode === 'shorten' ? 'Shorten' : 'Remove'} silence "${cut.word}"`,
+      prev => prev.map(c => c.id === cut.id ? { ...c, silenceMode: mode } : c)
+    );
   };
 
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  // What the edit really removes: padded, merged and clamped, as in the export
+  const removedRanges: RemovedRange[] = useMemo(() => normalizeCuts(cuts, duration, normalization), [cuts, duration, normalization]);
+
+  // Playback dips around each jump to approximate the render's crossfades
+  const previewAudioRef = useRef<PreviewAudio | null>(null);
+  const crossfade = crossfadeSeconds(audioJoins);
+  const roomTone: Segment | null = useMemo(
+    () => audioJoins.roomTone ? pickRoomTone(cuts, crossfade * 2) : null,
+    [audioJoins.roomTone, cuts, crossfade]
+  );
+
+  useEffect(() => () => previewAudioRef.current?.close(), []);
+
   // Playback Loop & Skip Logic
   useEffect(() => {
     let animationFrame: number;
@@ -79,32 +220,38 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
                 previewEndTimeRef.current = null;
             } else {
                 // Ensure the cut being previewed remains highlighted
-                const currentPreviewCut = cuts.find(c => time >= (c.start - 1.5) && time <= (c.end + 1.5));
+                const currentPreviewCut = cutIndex.overlapping(time - 1.5, time + 1.5)[0];
                 if (currentPreviewCut) setActiveCutId(currentPreviewCut.id);
             }
             // While previewing specific range, DO NOT skip cuts.
+            previewAudioRef.current?.settle(crossfade);
             animationFrame = requestAnimationFrame(checkTime);
             return;
         }
 
-        // Standard Logic: Skip accepted cuts
-        // Find if we are currently inside an ACCEPTED cut
+        // Standard Logic: Skip removed ranges
+        // Find if we are currently inside a range the edit removes
         // We only skip if the user is NOT scrubbing.
-        const currentCut = cuts.find(c => 
-          c.status === 'accepted' && 
-          time >= c.start && 
-          time < c.end
-        );
+        const removed = findRemovedRange(removedRanges, time);
+        const audio = previewAudioRef.current;
 
-        if (currentCut) {
+        if (removed) {
           // Visual indicator we are skipping
-          setActiveCutId(currentCut.id);
-          // Jump
-          videoRef.current.currentTime = currentCut.end;
+          setActiveCutId(removed.cutIds[0]);
+          // Jump, bridging removed silences with room tone when the render will
+          audio?.jump(crossfade, roomTone && audioBuffer && removed.silenceOnly ? { buffer: audioBuffer, tone: roomTone } : undefined);
+          videoRef.current.currentTime = removed.end;
         } else {
+           const upcoming = nextRemovedRange(removedRanges, time);
+           if (audio && upcoming && upcoming.start - time <= crossfade / 2 + FADE_LOOKAHEAD) {
+             audio.approach(upcoming, (upcoming.start - time) / videoRef.current.playbackRate, crossfade);
+           } else {
+             audio?.settle(crossfade);
+           }
+
            // Check if we are near any cut to highlight it in the UI list
-           const upcomingCut = cuts.find(c => Math.abs(c.start - time) < 2);
-           setActiveCutId(upcomingCut ? upcomingCut.id : null);
+           const upcomingCut = cutIndex.next(time - 2);
+           setActiveCutId(upcomingCut && upcomingCut.start < time + 2 ? upcomingCut.id : null);
         }
       } else {
         // Synchronize state if video paused externally or finished
@@ -117,7 +264,7 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
 
     animationFrame = requestAnimationFrame(checkTime);
     return () => cancelAnimationFrame(animationFrame);
-  }, [isPlaying, cuts, isScrubbing]);
+  }, [isPlaying, cutIndex, removedRanges, isScrubbing, crossfade, roomTone, audioBuffer]);
 
   // Preview specific cut (1s before and 1s after)
   const previewCut = (cut: CutEvent) => {
@@ -148,6 +295,15 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
     }
   };
 
+  // Jump to a point without playing, e.g. from the transcript
+  const seekTo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+      setCurrentTime(time);
+      previewEndTimeRef.current = null;
+    }
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -162,13 +318,27 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}:${ms.toString().padStart(3, '0')}`;
   };
 
+  const timeFromClientX = useCallback((clientX: number) => {
+    if (!timelineRef.current || duration <= 0) return 0;
+    const rect = timelineRef.current.getBoundingClientRect();
+    return view.start + (Math.max(0, Math.min(clientX - rect.left, rect.width)) / rect.width) * (view.end - view.start);
+  }, [duration, view]);
+
+  // Snaps to a nearby word edge, then to the nearest zero-crossing. Holding Alt bypasses both.
+  const snapTime = useCallback((time: number, bypass: boolean) => {
+    if (bypass || snapMode === 'off') return time;
+    let snapped = time;
+    if (snapMode === 'words' && timelineRef.current) {
+      const tolerance = (SNAP_PIXELS / timelineRef.current.clientWidth) * (view.end - view.start);
+      snapped = snapToEdge(time, wordEdges, tolerance) ?? time;
+    }
+    return audioBuffer ? findZeroCrossing(audioBuffer, snapped) : snapped;
+  }, [snapMode, view, wordEdges, audioBuffer]);
+
   // Scrubbing Handlers
   const handleScrubMove = useCallback((e: MouseEvent | React.MouseEvent) => {
     if (timelineRef.current && videoRef.current && duration > 0) {
-       const rect = timelineRef.current.getBoundingClientRect();
-       const x = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
-       const percentage = x / rect.width;
-       const newTime = percentage * duration;
+       const newTime = timeFromClientX(e.clientX);
        
        // Update state for UI playhead
        setCurrentTime(newTime);
@@ -178,15 +348,25 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
        videoRef.current.currentTime = newTime;
 
        // Identify active cut during scrub for visual feedback
-       const cutAtTime = cuts.find(c => newTime >= c.start && newTime < c.end);
+       const cutAtTime = cutIndex.at(newTime);
        setActiveCutId(cutAtTime ? cutAtTime.id : null);
     }
-  }, [duration, cuts]);
+  }, [duration, cutIndex, timeFromClientX]);
 
   const handleScrubStart = (e: React.MouseEvent) => {
     e.preventDefault(); // Prevent text selection
     if (!timelineRef.current || !videoRef.current) return;
 
+    // Shift+drag selects a range instead of scrubbing
+    if (e.shiftKey) {
+      const time = snapTime(timeFromClientX(e.clientX), e.altKey);
+      rangeAnchorRef.current = time;
+      setRange([time, time]);
+      setIsSelectingRange(true);
+      return;
+    }
+    setRange(null);
+
     setIsScrubbing(true);
     // Clear preview limit if user interacts
     previewEndTimeRef.current = null;
@@ -226,34 +406,369 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
     };
   }, [isScrubbing, handleScrubMove, handleScrubEnd]);
 
+  useEffect(() => {
+    if (!isSelectingRange) return;
+    const handleMove = (e: MouseEvent) => {
+      const time = snapTime(timeFromClientX(e.clientX), e.altKey);
+      const anchor = rangeAnchorRef.current;
+      setRange([Math.min(anchor, time), Math.max(anchor, time)]);
+    };
+    const handleUp = () => {
+      setIsSelectingRange(false);
+      setRange(r => r && r[1] - r[0] >= MIN_CUT_LENGTH ? r : null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [isSelectingRange, snapTime, timeFromClientX]);
 
-  // Helper for colors
-  const getCutColor = (type: string, isBg = false) => {
-      switch(type) {
-          case 'cliche': return isBg ? 'bg-pink-500' : 'text-pink-400';
-          case 'filler': return isBg ? 'bg-amber-500' : 'text-amber-400';
-          case 'repetition': return isBg ? 'bg-blue-500' : 'text-blue-400';
-          case 'stutter': return isBg ? 'bg-purple-500' : 'text-purple-400';
-          default: return isBg ? 'bg-slate-500' : 'text-slate-400';
-      }
+  // Dragging a trim handle moves one edge of the selected cut; the edit is committed on release
+  const startTrim = (e: React.MouseEvent, cut: CutEvent, edge: 'start' | 'end') => {
+    e.preventDefault();
+    e.stopPropagation();
+    previewEndTimeRef.current = null;
+    videoRef.current?.pause();
+    const draft = { id: cut.id, edge, start: cut.start, end: cut.end };
+    trimDraftRef.current = draft;
+    setTrimDraft(draft);
+  };
+
+  const isTrimming = trimDraft !== null;
+  useEffect(() => {
+    if (!isTrimming) return;
+    const handleMove = (e: MouseEvent) => {
+      const draft = trimDraftRef.current;
+      const cut = cuts.find(c => c.id === draft?.id);
+      if (!draft || !cut) return;
+      const time = snapTime(timeFromClientX(e.clientX), e.altKey);
+      const trimmed = trimCut({ ...cut, start: draft.start, end: draft.end }, draft.edge, time, duration);
+      const next = { ...draft, start: trimmed.start, end: trimmed.end };
+      trimDraftRef.current = next;
+      setTrimDraft(next);
+      // Show the frame at the edge being moved
+      const edgeTime = draft.edge === 'start' ? next.start : next.end;
+      if (videoRef.current) videoRef.current.currentTime = edgeTime;
+      setCurrentTime(edgeTime);
+    };
+    const handleUp = () => {
+      const draft = trimDraftRef.current;
+      const cut = cuts.find(c => c.id === draft?.id);
+      trimDraftRef.current = null;
+      setTrimDraft(null);
+      if (!draft || !cut || (draft.start === cut.start && draft.end === cut.end)) return;
+      onEditCuts(
+        `Trim ${cut.type} "${cut.word}"`,
+        prev => prev.map(c => c.id === draft.id ? { ...c, start: draft.start, end: draft.end } : c).sort((a, b) => a.start - b.start)
+      );
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [isTrimming, cuts, duration, snapTime, timeFromClientX, onEditCuts]);
+
+  const zoomBy = useCallback((factor: number, anchor?: number) => {
+    setView(v => zoomView(v, factor, anchor ?? (videoRef.current?.currentTime ?? (v.start + v.end) / 2), duration));
+  }, [duration]);
+
+  const fitTimeline = () => setView({ start: 0, end: duration });
+
+  // Keep the marker layout and ruler in step with the track's pixel width
+  useEffect(() => {
+    const track = timelineRef.current;
+    if (!track) return;
+    const observer = new ResizeObserver(entries => setTimelineWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(track);
+    return () => observer.disconnect();
+  }, []);
+
+  // Wheel (and trackpad pinch, which arrives as Ctrl+wheel) zooms around the mouse;
+  // Shift+wheel or a sideways swipe pans. React's wheel listener is passive, so attach our own.
+  useEffect(() => {
+    const track = timelineRef.current;
+    if (!track) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (duration <= 0) return;
+      e.preventDefault();
+      const rect = track.getBoundingClientRect();
+      const ratio = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+      const horizontal = e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY);
+      setView(v => {
+        const span = v.end - v.start;
+        if (horizontal) return panView(v, ((e.shiftKey ? e.deltaY : e.deltaX) / rect.width) * span, duration);
+        // Pinch deltas are small and continuous; wheel notches are around 100
+        const factor = Math.pow(ZOOM_STEP, e.deltaY / (e.ctrlKey ? 25 : 100));
+        return zoomView(v, factor, v.start + ratio * span, duration);
+      });
+    };
+    track.addEventListener('wheel', handleWheel, { passive: false });
+    return () => track.removeEventListener('wheel', handleWheel);
+  }, [duration]);
+
+  // Two-finger pinch on touch screens
+  useEffect(() => {
+    const track = timelineRef.current;
+    if (!track) return;
+    let pinch: { distance: number; view: TimelineView; anchorRatio: number } | null = null;
+    const measure = (e: TouchEvent) => {
+      const [a, b] = [e.touches[0], e.touches[1]];
+      const rect = track.getBoundingClientRect();
+      return {
+        distance: Math.abs(a.clientX - b.clientX),
+        ratio: Math.max(0, Math.min(1, ((a.clientX + b.clientX) / 2 - rect.left) / rect.width))
+      };
+    };
+    const handleStart = (e: TouchEvent) => {
+      if (e.touches.length !== 2) return;
+      const { distance, ratio } = measure(e);
+      pinch = { distance: Math.max(1, distance), view: viewRef.current, anchorRatio: ratio };
+    };
+    const handleMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      const { distance } = measure(e);
+      const start = pinch.view;
+      const anchor = start.start + pinch.anchorRatio * (start.end - start.start);
+      setView(zoomView(start, pinch.distance / Math.max(1, distance), anchor, duration));
+    };
+    const handleEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch = null;
+    };
+    track.addEventListener('touchstart', handleStart, { passive: true });
+    track.addEventListener('touchmove', handleMove, { passive: false });
+    track.addEventListener('touchend', handleEnd);
+    return () => {
+      track.removeEventListener('touchstart', handleStart);
+      track.removeEventListener('touchmove', handleMove);
+      track.removeEventListener('touchend', handleEnd);
+    };
+  }, [duration]);
+
+  // Page the zoomed view along with playback
+  useEffect(() => {
+    if (!followPlayback || isScrubbing || duration <= 0) return;
+    setView(v => followPlayhead(v, currentTime, duration));
+  }, [followPlayback, isScrubbing, currentTime, duration]);
+
+  // Markers for the visible window; dense stretches collapse into clusters
+  const markers: TimelineMarker[] = useMemo(
+    () => layoutMarkers(visibleIndex.overlapping(view.start, view.end), view, timelineWidth, c => c.id === selectedCutId || c.id === activeCutId),
+    [visibleIndex, view, timelineWidth, selectedCutId, activeCutId]
+  );
+  const ticks = useMemo(() => rulerTicks(view, timelineWidth), [view, timelineWidth]);
+
+  const addManualCut = () => {
+    if (!range) return;
+    const cut = createManualCut(range[0], range[1], words);
+    onEditCuts(`Add manual cut "${cut.word}"`, prev => [...prev, cut].sort((a, b) => a.start - b.start));
+    setSelectedCutId(cut.id);
+    setRange(null);
+  };
+
+  const splitSelected = () => {
+    if (!selectedCut) return;
+    const parts = splitCut(selectedCut, currentTime, words);
+    if (!parts) return;
+    onEditCuts(
+      `Split ${selectedCut.type} "${selectedCut.word}"`,
+      prev => prev.filter(c => c.id !== selectedCut.id).concat(parts).sort((a, b) => a.start - b.start)
+    );
+    setSelectedCutId(parts[0].id);
+  };
+
+  const mergeWithNext = () => {
+    if (!selectedCut || !nextCut) return;
+    const merged = mergeCuts([selectedCut, nextCut], words);
+    onEditCuts(
+      `Merge "${selectedCut.word}" with "${nextCut.word}"`,
+      prev => prev.filter(c => c.id !== selectedCut.id && c.id !== nextCut.id).concat(merged).sort((a, b) => a.start - b.start)
+    );
+    setSelectedCutId(merged.id);
+  };
+
+  const deleteSelected = () => {
+    if (!selectedCut) return;
+    onEditCuts(`Delete manual cut "${selectedCut.word}"`, prev => prev.filter(c => c.id !== selectedCut.id));
+    setSelectedCutId(null);
+  };
+
+  const applyToFiltered = (status: 'accepted' | 'rejected') => {
+    const ids = new Set(visibleCuts.filter(c => c.status !== status).map(c => c.id));
+    if (ids.size === 0) return;
+    onEditCuts(
+      `${status === 'accepted' ? 'Accept' : 'Reject'} ${ids.size} ${describeFilter(filter)}`,
+      prev => prev.map(c => ids.has(c.id) ? { ...c, status } : c)
+    );
   };
 
-  const getCutBadgeStyles = (type: string) => {
-      switch(type) {
-          case 'cliche': return 'bg-pink-500/20 text-pink-400';
-          case 'filler': return 'bg-amber-500/20 text-amber-400';
-          case 'repetition': return 'bg-blue-500/20 text-blue-400';
-          case 'stutter': return 'bg-purple-500/20 text-purple-400';
-          default: return 'bg-slate-500/20 text-slate-400';
+  const canSplit = selectedCut !== null &&
+    currentTime - selectedCut.start >= MIN_CUT_LENGTH && selectedCut.end - currentTime >= MIN_CUT_LENGTH;
+
+  // --- Keyboard review ---
+
+  const [shortcuts, setShortcuts] = useState<ShortcutMap>(loadShortcuts);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Shuttle rate: positive plays forward faster, negative plays in reverse, 0 is normal transport
+  const [shuttleSpeed, setShuttleSpeed] = useState(0);
+  const frameStepHeldRef = useRef(false);
+
+  const updateShortcuts = useCallback((next: ShortcutMap) => {
+    setShortcuts(next);
+    saveShortcuts(next);
+  }, []);
+
+  const stopShuttle = () => {
+    setShuttleSpeed(0);
+    if (videoRef.current) videoRef.current.playbackRate = 1;
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    stopShuttle();
+    if (video.paused) video.play().catch(console.error);
+    else video.pause();
+  };
+
+  // J/L: each press in the same direction steps up the speed ramp. With K held, steps one frame.
+  const shuttle = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    previewEndTimeRef.current = null;
+    if (frameStepHeldRef.current) {
+      stopShuttle();
+      video.pause();
+      seekTo(Math.max(0, Math.min(duration, video.currentTime + direction * FRAME_STEP)));
+      return;
+    }
+    let current = Math.sign(shuttleSpeed) === direction ? Math.abs(shuttleSpeed) : 0;
+    if (direction > 0 && current === 0 && !video.paused) current = 1;
+    const speed = SHUTTLE_SPEEDS[Math.min(SHUTTLE_SPEEDS.indexOf(current) + 1, SHUTTLE_SPEEDS.length - 1)];
+    setShuttleSpeed(direction * speed);
+    if (direction > 0) {
+      video.playbackRate = speed;
+      video.play().catch(console.error);
+    } else {
+      // Media elements cannot play backwards, so reverse is driven frame by frame below
+      video.pause();
+      video.playbackRate = 1;
+    }
+  };
+
+  useEffect(() => {
+    if (shuttleSpeed >= 0) return;
+    let frame: number;
+    let last = performance.now();
+    const step = (now: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      const time = Math.max(0, video.currentTime + shuttleSpeed * (now - last) / 1000);
+      last = now;
+      video.currentTime = time;
+      setCurrentTime(time);
+      if (time <= 0) {
+        setShuttleSpeed(0);
+        return;
       }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [shuttleSpeed]);
+
+  // The cut that A/R act on: the selected one, else the one under or near the playhead
+  const focusedCut = selectedCut ?? cutIndex.byId(activeCutId) ?? null;
+
+  // N/P: move relative to the focused cut while auditioning it, otherwise relative to the playhead
+  const jumpToCut = (direction: 1 | -1) => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    const anchor = focusedCut && time >= focusedCut.start - 1.5 && time <= focusedCut.end + 1.5 ? focusedCut.start : time;
+    const target = direction > 0 ? visibleIndex.next(anchor + 0.001) : visibleIndex.prev(anchor - 0.001);
+    if (!target) return;
+    stopShuttle();
+    // Selecting scrolls the list to the card
+    setSelectedCutId(target.id);
+    previewCut(target);
   };
 
+  // Card callbacks go through a ref so the memoized cards skip re-rendering on every playback frame
+  const cardActionsRef = useRef<CutCardActions | null>(null);
+  cardActionsRef.current = { select: setSelectedCutId, preview: previewCut, setStatus: toggleCutStatus, setSilenceMode };
+  const cardActions: CutCardActions = useMemo(() => ({
+    select: (id: string) => cardActionsRef.current!.select(id),
+    preview: (cut: CutEvent) => cardActionsRef.current!.preview(cut),
+    setStatus: (cut: CutEvent, status: 'accepted' | 'rejected') => cardActionsRef.current!.setStatus(cut, status),
+    setSilenceMode: (cut: CutEvent, mode: SilenceMode) => cardActionsRef.current!.setSilenceMode(cut, mode)
+  }), []);
+
+  // Rebuilt every render so the window listener always sees current state
+  const handleShortcutRef = useRef<(e: KeyboardEvent) => void>(() => undefined);
+  handleShortcutRef.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+    const action = findAction(shortcuts, keyFromEvent(e));
+    if (!action) return;
+    e.preventDefault();
+    // Holding a key repeats only for seeking; ramps and toggles need a fresh press
+    if (e.repeat && action !== 'back5' && action !== 'forward5') return;
+
+    switch (action) {
+      case 'playPause': togglePlay(); break;
+      case 'shuttleReverse': shuttle(-1); break;
+      case 'shuttleForward': shuttle(1); break;
+      case 'shuttleStop':
+        frameStepHeldRef.current = true;
+        stopShuttle();
+        videoRef.current?.pause();
+        break;
+      case 'acceptCut': if (focusedCut) toggleCutStatus(focusedCut, 'accepted'); break;
+      case 'rejectCut': if (focusedCut) toggleCutStatus(focusedCut, 'rejected'); break;
+      case 'nextCut': jumpToCut(1); break;
+      case 'prevCut': jumpToCut(-1); break;
+      case 'back5': skip(-5); break;
+      case 'forward5': skip(5); break;
+      case 'zoomIn': zoomBy(1 / ZOOM_STEP); break;
+      case 'zoomOut': zoomBy(ZOOM_STEP); break;
+      case 'zoomFit': fitTimeline(); break;
+      case 'help': setShowShortcuts(v => !v); break;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleShortcutRef.current(e);
+    const handleKeyUp = (e: KeyboardEvent) => {
+      // Modifiers may be released in any order, so match the bare key
+      if (shortcuts.shuttleStop.some(k => k.split('+').pop() === keyFromEvent(e).split('+').pop())) {
+        frameStepHeldRef.current = false;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [shortcuts]);
+
+
   // Memoized stats
   const stats = useMemo(() => {
     const accepted = cuts.filter(c => c.status === 'accepted');
-    const timeSaved = accepted.reduce((acc, c) => acc + (c.end - c.start), 0);
-    return { count: accepted.length, timeSaved };
-  }, [cuts]);
+    const timeSaved = totalRemoved(removedRanges);
+    const pending = cuts.filter(c => c.status === 'pending').length;
+    return { count: accepted.length, timeSaved, pending };
+  }, [cuts, removedRanges]);
+
+  // Pending cuts are kept in the render, so make sure that is intended
+  const handleConfirm = () => {
+    if (stats.pending > 0 && !window.confirm(`${stats.pending} cuts are still pending review and will be kept in the video. Process anyway?`)) return;
+    onConfirm();
+  };
 
   return (
     <div className="flex flex-col h-[calc(100vh-100px)] max-w-7xl mx-auto w-full animate-fade-in gap-6">
@@ -264,14 +779,51 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
           <h2 className="text-xl font-bold text-white">Review & Edit</h2>
           <p className="text-sm text-slate-400">
             {stats.count} cuts selected • <span className="text-green-400">-{stats.timeSaved.toFixed(1)}s removed</span>
+            {stats.pending > 0 && (
+              <>
+                {' • '}
+                <button onClick={() => setFilter({ ...EMPTY_FILTER, status: 'pending' })} className="text-amber-400 hover:text-amber-300" title="Show pending cuts">
+                  {stats.pending} pending review
+                </button>
+              </>
+            )}
           </p>
         </div>
         <div className="flex gap-3">
+          <div className="flex items-center gap-1 mr-2">
+            <button
+              onClick={onUndo}
+              disabled={history.past.length === 0}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={history.future.length === 0}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <Redo2 className="w-5 h-5" />
+            </button>
+          </div>
+          <button
+            onClick={() => setShowShortcuts(true)}
+            className="p-2 mr-1 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title={`Keyboard shortcuts (${shortcuts.help.map(formatKey).join(' / ')})`}
+          >
+            <Keyboard className="w-5 h-5" />
+          </button>
           <Button variant="secondary" onClick={onCancel}>Back</Button>
-          <Button onClick={onConfirm}>Process Video</Button>
+          <Button onClick={handleConfirm} disabled={analysis !== null} title={analysis ? 'Wait for analysis to finish' : undefined}>Process Video</Button>
         </div>
       </div>
 
+      {analysis && onCancelAnalysis && (
+        <AnalysisProgressBar progress={analysis} onCancel={onCancelAnalysis} />
+      )}
+
       <div className="flex flex-col lg:flex-row gap-6 h-full overflow-hidden">
         
         {/* Left: Video Player */}
@@ -281,9 +833,22 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
               ref={videoRef}
               src={fileUrl}
               className="max-h-full max-w-full"
-              onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
-              onPlay={() => setIsPlaying(true)}
-              onPause={() => setIsPlaying(false)}
+              onLoadedMetadata={(e) => {
+                setDuration(e.currentTarget.duration);
+                setView({ start: 0, end: e.currentTarget.duration });
+                if (initialTime > 0) {
+                  e.currentTarget.currentTime = initialTime;
+                  setCurrentTime(initialTime);
+                }
+              }}
+              onPlay={(e) => {
+                setIsPlaying(true);
+                if (!previewAudioRef.current) previewAudioRef.current = createPreviewAudio(e.currentTarget);
+              }}
+              onPause={() => {
+                setIsPlaying(false);
+                if (shuttleSpeed > 0) stopShuttle();
+              }}
               controls={false} // Custom controls below
               playsInline
             />
@@ -298,76 +863,143 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
                 Previewing Segment
               </div>
             )}
+            {shuttleSpeed !== 0 && (
+              <div className="absolute top-4 left-4 bg-slate-900/90 text-white px-3 py-1 rounded-full text-xs font-mono font-bold shadow-lg backdrop-blur-sm border border-slate-700">
+                {shuttleSpeed < 0 ? '◀◀' : '▶▶'} {Math.abs(shuttleSpeed)}×
+              </div>
+            )}
           </div>
 
           {/* Custom Timeline & Controls */}
           <div className="h-auto py-4 bg-slate-900 border-t border-slate-800 px-4 flex flex-col justify-between shrink-0 select-none">
+             {/* Ruler: tick spacing adapts to the zoom level */}
+             <div className="relative h-5 mb-1 overflow-hidden select-none pointer-events-none text-[10px] font-mono text-slate-500">
+                {ticks.map(tick => (
+                    <div key={tick.time} className="absolute bottom-0" style={{ left: `${toPercent(tick.time)}%` }}>
+                        <div className={`w-px ${tick.label ? 'h-2 bg-slate-500' : 'h-1 bg-slate-700'}`} />
+                        {tick.label && <span className="absolute bottom-2 left-1 whitespace-nowrap">{tick.label}</span>}
+                    </div>
+                ))}
+             </div>
+
              {/* Timeline Track with Waveform */}
              <div 
                ref={timelineRef}
-               className={`relative h-24 bg-slate-950 rounded-lg mb-4 group/timeline overflow-hidden border border-slate-800 touch-none select-none ${isScrubbing ? 'cursor-grabbing' : 'cursor-pointer'}`}
+               className={`relative h-24 bg-slate-950 rounded-lg mb-2 group/timeline overflow-hidden border border-slate-800 touch-none select-none ${isScrubbing ? 'cursor-grabbing' : 'cursor-pointer'}`}
                onMouseDown={handleScrubStart}
                onMouseMove={(e) => {
-                 if (!isScrubbing && timelineRef.current && duration > 0) {
-                    const rect = timelineRef.current.getBoundingClientRect();
-                    const x = e.clientX - rect.left;
-                    setHoverTime((x / rect.width) * duration);
-                 }
+                 if (!isScrubbing && duration > 0) setHoverTime(timeFromClientX(e.clientX));
                }}
                onMouseLeave={() => setHoverTime(null)}
              >
                 {/* Waveform Visualization Layer */}
-                <div className="absolute inset-0 flex items-center justify-between px-1 gap-px opacity-40 pointer-events-none">
-                    {waveformBars.map((height, i) => (
-                        <div 
-                            key={i}
-                            className="flex-1 bg-slate-400 rounded-full transition-all duration-300"
-                            style={{ height: `${height * 60}%` }}
-                        />
-                    ))}
+                <div className="absolute inset-0 px-1 opacity-60 pointer-events-none">
+                    <Waveform file={file} start={view.start} end={view.end} />
                 </div>
 
                 <div className="absolute inset-0 rounded overflow-hidden pointer-events-none">
                     {/* Progress Fill (Visual Feedback) */}
                     <div 
                         className="absolute top-0 left-0 h-full bg-indigo-500/10 border-r border-indigo-500/30"
-                        style={{ width: `${(currentTime / duration) * 100}%` }}
+                        style={{ width: `${Math.max(0, Math.min(100, toPercent(currentTime)))}%` }}
                     />
 
                     {/* Cuts Markers */}
-                    {cuts.map(cut => {
+                    {markers.map(marker => {
+                        if (marker.kind === 'cluster') {
+                            return (
+                                <div
+                                    key={`cluster-${marker.start}`}
+                                    onMouseDown={(e) => {
+                                        e.stopPropagation();
+                                        setView(clampView({ start: marker.start - 1, end: marker.end + 1 }, duration));
+                                    }}
+                                    className={`absolute h-full pointer-events-auto cursor-zoom-in ${marker.accepted > 0 ? 'bg-rose-400/70' : 'bg-slate-500/60'}`}
+                                    style={{ left: `${toPercent(marker.start)}%`, width: `${Math.max(0.3, toPercent(marker.end) - toPercent(marker.start))}%` }}
+                                    title={`${marker.count} cuts (${marker.accepted} accepted). Click to zoom in.`}
+                                />
+                            );
+                        }
+                        const cut = marker.cut;
                         const isActive = activeCutId === cut.id;
+                        const isSelected = selectedCutId === cut.id;
+                        const shown = trimDraft?.id === cut.id ? trimDraft : cut;
+                        // Shortened pauses keep their edges; shade those so only the removed middle stands out
+                        const keptEdge = isShortenedSilence(cut, normalization.silence)
+                            ? (keptPause(shown.end - shown.start, normalization.silence) / 2 / (shown.end - shown.start)) * 100
+                            : 0;
                         return (
                             <div
                                 key={cut.id}
-                                className={`absolute h-full transition-all duration-200 backdrop-blur-[1px] ${
+                                onMouseDown={() => setSelectedCutId(cut.id)}
+                                className={`absolute h-full pointer-events-auto backdrop-blur-[1px] ${
+                                isSelected ? '' : 'transition-colors duration-200'
+                                } ${
                                 cut.status === 'accepted' 
                                     ? getCutColor(cut.type, true)
+                                    : cut.status === 'pending'
+                                    ? 'bg-slate-600 border-x-2 border-dashed border-amber-300/80'
                                     : 'bg-slate-700'
-                                } ${isActive ? 'opacity-80 ring-2 ring-white/70 z-10 brightness-110' : 'opacity-60'}`}
+                                } ${isSelected ? 'opacity-90 ring-2 ring-indigo-300 z-10' : isActive ? 'opacity-80 ring-2 ring-white/70 z-10 brightness-110' : 'opacity-60'}`}
                                 style={{
-                                left: `${(cut.start / duration) * 100}%`,
-                                width: `${Math.max(0.5, ((cut.end - cut.start) / duration) * 100)}%`
+                                left: `${toPercent(shown.start)}%`,
+                                width: `${Math.max(0.3, toPercent(shown.end) - toPercent(shown.start))}%`
                                 }}
-                            />
+                            >
+                                {keptEdge > 0 && (
+                                    <>
+                                        <div className="absolute inset-y-0 left-0 bg-slate-900/60" style={{ width: `${keptEdge}%` }} />
+                                        <div className="absolute inset-y-0 right-0 bg-slate-900/60" style={{ width: `${keptEdge}%` }} />
+                                    </>
+                                )}
+                            </div>
                         );
                     })}
+
+                    {/* Trim Handles for the selected cut */}
+                    {selectedCut && (() => {
+                        const shown = trimDraft?.id === selectedCut.id ? trimDraft : selectedCut;
+                        return (['start', 'end'] as const).map(edge => (
+                            <div
+                                key={edge}
+                                onMouseDown={(e) => startTrim(e, selectedCut, edge)}
+                                className="absolute top-0 h-full w-2 -translate-x-1/2 pointer-events-auto cursor-ew-resize z-30 flex items-center justify-center group/handle"
+                                style={{ left: `${toPercent(shown[edge])}%` }}
+                                title={edge === 'start' ? 'Drag to trim the in point (Alt: no snapping)' : 'Drag to trim the out point (Alt: no snapping)'}
+                            >
+                                <div className="w-1 h-2/3 rounded-full bg-indigo-200 shadow group-hover/handle:bg-white" />
+                            </div>
+                        ));
+                    })()}
+
+                    {/* Range Selection */}
+                    {range && (
+                        <div
+                            className="absolute top-0 h-full bg-emerald-400/20 border-x-2 border-emerald-400 z-10"
+                            style={{
+                                left: `${toPercent(range[0])}%`,
+                                width: `${toPercent(range[1]) - toPercent(range[0])}%`
+                            }}
+                        />
+                    )}
                     
                     {/* Ghost Playhead (Hover) */}
                     {!isScrubbing && hoverTime !== null && (
                         <div 
                             className="absolute top-0 w-px h-full bg-white/40 z-0"
-                            style={{ left: `${(hoverTime / duration) * 100}%` }}
+                            style={{ left: `${toPercent(hoverTime)}%` }}
                         />
                     )}
 
                     {/* Active Playhead */}
-                    <div 
-                    className={`absolute top-0 h-full bg-white shadow-[0_0_10px_rgba(255,255,255,0.5)] z-20 transition-all duration-75 ${
-                        isScrubbing ? 'w-1 bg-indigo-400 shadow-indigo-500/50' : 'w-0.5'
-                    }`}
-                    style={{ left: `${(currentTime / duration) * 100}%` }}
-                    />
+                    {currentTime >= view.start && currentTime <= view.end && (
+                        <div 
+                        className={`absolute top-0 h-full bg-white shadow-[0_0_10px_rgba(255,255,255,0.5)] z-20 ${
+                            isScrubbing ? 'w-1 bg-indigo-400 shadow-indigo-500/50' : 'w-0.5'
+                        }`}
+                        style={{ left: `${toPercent(currentTime)}%` }}
+                        />
+                    )}
                 </div>
 
                 {/* Time Tooltip */}
@@ -375,7 +1007,7 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
                     <div 
                         className="absolute top-2 -translate-x-1/2 px-2 py-1 bg-slate-800/90 text-white text-xs font-mono rounded shadow-lg pointer-events-none z-40 whitespace-nowrap border border-slate-600 backdrop-blur"
                         style={{ 
-                            left: `${((isScrubbing ? currentTime : hoverTime!) / duration) * 100}%` 
+                            left: `${toPercent(isScrubbing ? currentTime : hoverTime!)}%` 
                         }}
                     >
                         {formatTimeExact(isScrubbing ? currentTime : hoverTime!)}
@@ -383,6 +1015,91 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
                 )}
              </div>
 
+             <div className="mb-4">
+               <TimelineMinimap cuts={visibleCuts} duration={duration} view={view} currentTime={currentTime} onViewChange={setView} />
+             </div>
+
+             {/* Cut Editing Toolbar */}
+             <div className="flex items-center justify-between gap-3 mb-3 -mt-2 text-xs min-h-[28px]">
+                <div className="flex items-center gap-2 min-w-0">
+                  {range ? (
+                    <>
+                      <span className="text-emerald-300 font-mono">{formatTimeExact(range[0])} – {formatTimeExact(range[1])}</span>
+                      <button onClick={addManualCut} className="flex items-center gap-1 px-2 py-1 rounded bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30">
+                        <Plus className="w-3 h-3" /> Add manual cut
+                      </button>
+                      <button onClick={() => setRange(null)} className="px-2 py-1 rounded text-slate-400 hover:text-white hover:bg-slate-800">
+                        Clear
+                      </button>
+                    </>
+                  ) : selectedCut ? (
+                    <>
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider ${getCutBadgeStyles(selectedCut.type)}`}>{selectedCut.type}</span>
+                      <span className="text-slate-400 font-mono truncate">
+                        {formatTimeExact(trimDraft?.start ?? selectedCut.start)} – {formatTimeExact(trimDraft?.end ?? selectedCut.end)}
+                      </span>
+                      <button
+                        onClick={splitSelected}
+                        disabled={!canSplit}
+                        className="flex items-center gap-1 px-2 py-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+                        title="Split the cut at the playhead"
+                      >
+                        <Scissors className="w-3 h-3" /> Split
+                      </button>
+                      <button
+                        onClick={mergeWithNext}
+                        disabled={!nextCut}
+                        className="flex items-center gap-1 px-2 py-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"
+                        title="Merge with the next cut"
+                      >
+                        <Combine className="w-3 h-3" /> Merge next
+                      </button>
+                      {selectedCut.type === 'manual' && (
+                        <button
+                          onClick={deleteSelected}
+                          className="flex items-center gap-1 px-2 py-1 rounded text-slate-400 hover:text-red-400 hover:bg-red-900/20"
+                          title="Delete this manual cut"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-slate-500">Click a marker to trim it. Shift+drag to select a range.</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                <div className="flex items-center rounded border border-slate-700 overflow-hidden">
+                  <button onClick={() => zoomBy(1 / ZOOM_STEP)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800" title="Zoom in (wheel or pinch on the timeline)">
+                    <ZoomIn className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => zoomBy(ZOOM_STEP)} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800" title="Zoom out">
+                    <ZoomOut className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={fitTimeline} className="p-1 text-slate-400 hover:text-white hover:bg-slate-800" title="Show the whole recording">
+                    <Maximize2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setFollowPlayback(f => !f)}
+                    className={`p-1 hover:bg-slate-800 ${followPlayback ? 'text-indigo-400' : 'text-slate-500 hover:text-white'}`}
+                    title={followPlayback ? 'Following the playhead' : 'Follow the playhead'}
+                  >
+                    <Crosshair className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <select
+                  value={snapMode}
+                  onChange={(e) => setSnapMode(e.target.value as SnapMode)}
+                  className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-2 py-1"
+                  title="Where trimmed edges snap to"
+                >
+                  <option value="words">Snap: words</option>
+                  <option value="zero">Snap: zero-crossings</option>
+                  <option value="off">Snap: off</option>
+                </select>
+                </div>
+             </div>
+
              {/* Transport Controls */}
              <div className="flex items-center justify-between">
                 
@@ -412,12 +1129,7 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
                   </button>
 
                   <button 
-                    onClick={() => {
-                        if(videoRef.current) {
-                            if(isPlaying) videoRef.current.pause();
-                            else videoRef.current.play();
-                        }
-                    }}
+                    onClick={togglePlay}
                     className="text-white bg-indigo-600 hover:bg-indigo-500 transition-all focus:outline-none transform active:scale-95 p-3 rounded-full shadow-lg shadow-indigo-500/20"
                   >
                     {isPlaying ? <Pause className="w-6 h-6 fill-current" /> : <Play className="w-6 h-6 fill-current ml-0.5" />}
@@ -448,7 +1160,10 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
                   <div className="flex items-center gap-1.5 text-slate-400" title="Clichés"><span className="w-2 h-2 rounded-full bg-pink-500 shadow-[0_0_8px_rgba(236,72,153,0.5)]"></span>Cliché</div>
                   <div className="flex items-center gap-1.5 text-slate-400" title="Stuttering"><span className="w-2 h-2 rounded-full bg-purple-500 shadow-[0_0_8px_rgba(168,85,247,0.5)]"></span>Stutter</div>
                   <div className="flex items-center gap-1.5 text-slate-400" title="Repetitions"><span className="w-2 h-2 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.5)]"></span>Repeat</div>
+                  <div className="flex items-center gap-1.5 text-slate-400" title="False Starts"><span className="w-2 h-2 rounded-full bg-lime-500 shadow-[0_0_8px_rgba(132,204,22,0.5)]"></span>False start</div>
                   <div className="flex items-center gap-1.5 text-slate-400" title="Silences"><span className="w-2 h-2 rounded-full bg-slate-500"></span>Silence</div>
+                  <div className="flex items-center gap-1.5 text-slate-400" title="Custom Phrases"><span className="w-2 h-2 rounded-full bg-cyan-500 shadow-[0_0_8px_rgba(6,182,212,0.5)]"></span>Custom</div>
+                  <div className="flex items-center gap-1.5 text-slate-400" title="Manual Cuts"><span className="w-2 h-2 rounded-full bg-emerald-500"></span>Manual</div>
                 </div>
              </div>
           </div>
@@ -456,73 +1171,89 @@ export const ReviewPhase: React.FC<ReviewPhaseProps> = ({
 
         {/* Right: Cut List */}
         <div className="w-full lg:w-96 bg-slate-900 border border-slate-800 rounded-xl flex flex-col shrink-0 overflow-hidden shadow-xl">
-           <div className="p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur">
-             <h3 className="font-semibold text-white">Detected Events</h3>
+           <div className="p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur flex items-center gap-4">
+             <button
+               onClick={() => setSidebarView('events')}
+               className={`font-semibold transition-colors ${sidebarView === 'events' ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}
+             >
+               Detected Events
+             </button>
+             {transcript && (
+               <button
+                 onClick={() => setSidebarView('transcript')}
+                 className={`font-semibold transition-colors ${sidebarView === 'transcript' ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}
+               >
+                 Transcript
+               </button>
+             )}
+             <button
+               onClick={() => setSidebarView('history')}
+               className={`font-semibold transition-colors ${sidebarView === 'history' ? 'text-white' : 'text-slate-500 hover:text-slate-300'}`}
+             >
+               History
+               {history.past.length > 0 && <span className="ml-1 text-xs text-slate-500">({history.past.length})</span>}
+             </button>
            </div>
            
-           <div className="flex-1 overflow-y-auto p-2 space-y-2">
-              {cuts.length === 0 ? (
-                <div className="text-center p-8 text-slate-500">
-                  No cuts detected. You speak perfectly!
-                </div>
-              ) : (
-                cuts.map((cut) => (
-                  <div 
-                    key={cut.id}
-                    className={`p-3 rounded-lg border transition-all duration-200 ${
-                       activeCutId === cut.id ? 'bg-indigo-900/20 border-indigo-500/50 ring-1 ring-indigo-500/20 shadow-lg' : 'bg-slate-800 border-slate-700 hover:border-slate-600'
-                    } ${cut.status === 'rejected' ? 'opacity-60' : ''}`}
-                    id={`cut-item-${cut.id}`}
-                  >
-                    <div className="flex justify-between items-start mb-2">
-                       <div className="flex items-center gap-2">
-                          <span className={`px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider ${getCutBadgeStyles(cut.type)}`}>
-                            {cut.type}
-                          </span>
-                          <span className="font-medium text-slate-200 text-sm">"{cut.word}"</span>
-                       </div>
-                       <span className="text-xs font-mono text-slate-500">{formatTimeExact(cut.start)}</span>
-                    </div>
-
-                    <div className="flex items-center justify-between mt-3">
-                       <button 
-                         onClick={() => previewCut(cut)}
-                         className="flex items-center text-xs text-indigo-400 hover:text-indigo-300 font-medium"
-                       >
-                         <Play className="w-3 h-3 mr-1" /> Preview
-                       </button>
-
-                       <div className="flex gap-2">
-                          {/* Reject Button */}
-                          <button
-                             onClick={() => toggleCutStatus(cut.id, 'rejected')}
-                             className={`p-1.5 rounded transition-colors ${
-                               cut.status === 'rejected' ? 'bg-red-500/20 text-red-400' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
-                             }`}
-                             title="Keep Original"
-                          >
-                            <XIcon className="w-4 h-4" />
-                          </button>
-                          
-                          {/* Accept Button */}
-                          <button
-                             onClick={() => toggleCutStatus(cut.id, 'accepted')}
-                             className={`p-1.5 rounded transition-colors ${
-                               cut.status === 'accepted' ? 'bg-green-500/20 text-green-400' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
-                             }`}
-                             title="Accept Cut"
-                          >
-                            <Check className="w-4 h-4" />
-                          </button>
-                       </div>
-                    </div>
-                  </div>
-                ))
-              )}
+           {sidebarView === 'history' ? (
+             <div className="flex-1 overflow-hidden">
+               <HistoryPanel history={history} onTravel={onHistoryTravel} />
+             </div>
+           ) : sidebarView === 'transcript' && transcript ? (
+             <div className="flex-1 overflow-hidden">
+               <TranscriptEditor
+                 transcript={transcript}
+                 cuts={cuts}
+                 onEditCuts={onEditCuts}
+                 currentTime={currentTime}
+                 onSeek={seekTo}
+               />
+             </div>
+           ) : (
+           <div className="flex-1 flex flex-col overflow-hidden">
+           <CutFilterBar
+             filter={filter}
+             onChange={setFilter}
+             matchCount={visibleCuts.length}
+             totalCount={cuts.length}
+             onBulkAction={applyToFiltered}
+           />
+           {cuts.length === 0 ? (
+             <div className="flex-1 text-center p-8 text-slate-500">
+               No cuts detected. You speak perfectly!
+             </div>
+           ) : visibleCuts.length === 0 ? (
+             <div className="flex-1 text-center p-8 text-slate-500">
+               No cuts match the filter.
+             </div>
+           ) : (
+             <VirtualList
+               items={visibleCuts}
+               getKey={cutKey}
+               estimateHeight={96}
+               scrollToKey={selectedCutId}
+               className="flex-1 p-2"
+               renderItem={(cut: CutEvent) => (
+                 <CutCard
+                   cut={cut}
+                   startLabel={formatTimeExact(cut.start)}
+                   isSelected={selectedCutId === cut.id}
+                   isActive={activeCutId === cut.id}
+                   silence={normalization.silence}
+                   actions={cardActions}
+                 />
+               )}
+             />
+           )}
            </div>
+           )}
         </div>
 
       </div>
+
+      {showShortcuts && (
+        <ShortcutHelp shortcuts={shortcuts} onChange={updateShortcuts} onClose={() => setShowShortcuts(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
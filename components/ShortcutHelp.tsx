@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { DEFAULT_SHORTCUTS, formatKey, keyFromEvent, rebind, SHORTCUT_ACTIONS, ShortcutAction, ShortcutMap } from '../services/shortcutService';
+
+interface ShortcutHelpProps {
+  shortcuts: ShortcutMap;
+  onChange: (shortcuts: ShortcutMap) => void;
+  onClose: () => void;
+}
+
+// Shortcuts that are not configurable
+const FIXED_SHORTCUTS = [
+  { keys: 'Ctrl+Z', label: 'Undo' },
+  { keys: 'Ctrl+Shift+Z', label: 'Redo' },
+  { keys: 'Shift+drag', label: 'Select a timeline range' },
+  { keys: 'Alt+drag', label: 'Trim without snapping' },
+];
+
+/**
+ * Lists every review shortcut. Click a binding, then press a key to change it.
+ */
+export const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ shortcuts, onChange, onClose }) => {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  // Captures the next key press for the binding being changed, or closes on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === 'Escape') {
+        if (capturing) setCapturing(null);
+        else onClose();
+        return;
+      }
+      if (!capturing) {
+        if (shortcuts.help.includes(keyFromEvent(e))) onClose();
+        return;
+      }
+      // A lone modifier is not a binding; wait for the full combination
+      if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+      onChange(rebind(shortcuts, capturing, keyFromEvent(e)));
+      setCapturing(null);
+    };
+    // Capture phase, so the review screen never sees keys meant for this dialog
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, shortcuts, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+          <h3 className="font-semibold text-white flex items-center gap-2">
+            <Keyboard className="w-5 h-5 text-indigo-400" /> Keyboard Shortcuts
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 max-h-[60vh] overflow-y-auto space-y-1">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between gap-4 px-2 py-1.5 rounded hover:bg-slate-800/50">
+              <span className="text-sm text-slate-300">{label}</span>
+              <button
+                onClick={() => setCapturing(action)}
+                className={`min-w-[4rem] px-2 py-1 rounded border font-mono text-xs transition-colors ${
+                  capturing === action
+                    ? 'border-indigo-400 bg-indigo-500/20 text-indigo-200 animate-pulse'
+                    : 'border-slate-700 bg-slate-800 text-slate-200 hover:border-slate-500'
+                }`}
+                title="Click, then press a key to rebind"
+              >
+                {capturing === action ? 'Press a key…' : shortcuts[action].map(formatKey).join(' / ') || '—'}
+              </button>
+            </div>
+          ))}
+          <div className="pt-3 mt-3 border-t border-slate-800 space-y-1">
+            {FIXED_SHORTCUTS.map(({ keys, label }) => (
+              <div key={keys} className="flex items-center justify-between gap-4 px-2 py-1 text-slate-500">
+                <span className="text-sm">{label}</span>
+                <span className="font-mono text-xs">{keys}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center px-6 py-3 border-t border-slate-800 text-xs">
+          <span className="text-slate-500">Esc to close</span>
+          <button onClick={() => onChange(DEFAULT_SHORTCUTS)} className="text-indigo-400 hover:text-indigo-300">
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CutEvent } from '../types';
+import { TimelineView } from '../services/timelineViewService';
+import { getCutHex } from './cutStyles';
+
+interface TimelineMinimapProps {
+  cuts: CutEvent[];
+  duration: number;
+  view: TimelineView;
+  currentTime: number;
+  onViewChange: (view: TimelineView) => void;
+}
+
+/**
+ * Overview of the whole recording under the zoomed timeline. Cuts are drawn on
+ * a canvas, so thousands cost one paint; click or drag to move the visible window.
+ */
+export const TimelineMinimap: React.FC<TimelineMinimapProps> = ({ cuts, duration, view, currentTime, onViewChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const dragOffsetRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0 || duration <= 0) return;
+    const height = canvas.clientHeight;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    for (const cut of cuts) {
+      ctx.globalAlpha = cut.status === 'accepted' ? 0.9 : 0.35;
+      ctx.fillStyle = getCutHex(cut.type);
+      const x = (cut.start / duration) * width;
+      ctx.fillRect(x, 0, Math.max(1, ((cut.end - cut.start) / duration) * width), height);
+    }
+  }, [cuts, duration, width]);
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return (Math.max(0, Math.min(clientX - rect.left, rect.width)) / rect.width) * duration;
+  };
+
+  const moveTo = (start: number) => {
+    const span = view.end - view.start;
+    const clamped = Math.max(0, Math.min(start, duration - span));
+    onViewChange({ start: clamped, end: clamped + span });
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const time = timeAt(e.clientX);
+    const span = view.end - view.start;
+    // Grabbing the window keeps the grab point under the mouse; clicking elsewhere centres it there
+    const inside = time >= view.start && time <= view.end;
+    dragOffsetRef.current = inside ? time - view.start : span / 2;
+    if (!inside) moveTo(time - span / 2);
+
+    const handleMove = (ev: MouseEvent) => {
+      if (dragOffsetRef.current !== null) moveTo(timeAt(ev.clientX) - dragOffsetRef.current);
+    };
+    const handleUp = () => {
+      dragOffsetRef.current = null;
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  if (duration <= 0) return null;
+  const zoomed = view.end - view.start < duration;
+
+  return (
+    <div
+      ref={containerRef}
+      onMouseDown={handleMouseDown}
+      className="relative h-4 bg-slate-950 rounded border border-slate-800 overflow-hidden cursor-pointer"
+      title="Overview: click or drag to move the timeline"
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div className="absolute top-0 h-full w-px bg-white/80" style={{ left: `${(currentTime / duration) * 100}%` }} />
+      {zoomed && (
+        <div
+          className="absolute top-0 h-full border border-indigo-400 bg-indigo-400/15 rounded-sm cursor-grab"
+          style={{
+            left: `${(view.start / duration) * 100}%`,
+            width: `${Math.max(0.5, ((view.end - view.start) / duration) * 100)}%`
+          }}
+        />
+      )}
+    </div>
+  );
+};
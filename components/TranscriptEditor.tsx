@@ -0,0 +1,271 @@
+import React, { memo, useMemo, useRef, useState } from 'react';
+import { Strikethrough, Undo2 } from 'lucide-react';
+import { CutEvent, Transcript, TranscriptWord } from '../types';
+import { EditCuts } from '../services/historyService';
+import { splitCut } from '../services/cutEditService';
+import { getCutColor } from './cutStyles';
+
+interface TranscriptEditorProps {
+  transcript: Transcript;
+  cuts: CutEvent[];
+  onEditCuts: EditCuts;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+// A word belongs to a cut when its midpoint falls inside the cut.
+const mapWordsToCuts = (words: TranscriptWord[], cuts: CutEvent[]): (CutEvent | null)[] => {
+  // Silences sit between words; ignoring them keeps the mapping to spoken cuts.
+  const spoken = cuts.filter(c => c.type !== 'silence').sort((a, b) => a.start - b.start);
+  const result: (CutEvent | null)[] = new Array(words.length).fill(null);
+  let c = 0;
+  words.forEach((w, i) => {
+    const mid = (w.start + w.end) / 2;
+    while (c < spoken.length && spoken[c].end < mid) c++;
+    // Cuts may overlap, so look a few ahead for the first that covers the word
+    for (let k = c; k < spoken.length && spoken[k].start <= mid; k++) {
+      if (mid <= spoken[k].end) { result[i] = spoken[k]; break; }
+    }
+  });
+  return result;
+};
+
+/**
+ * Strikes the words in `[from, to]`: rejected cuts covering them are accepted
+ * again, and words not covered by any cut become new manual cuts.
+ */
+const strikeWords = (words: TranscriptWord[], wordCuts: (CutEvent | null)[], from: number, to: number, cuts: CutEvent[]): CutEvent[] => {
+  const accept = new Set<string>();
+  const created: CutEvent[] = [];
+  let runStart = -1;
+
+  const closeRun = (end: number) => {
+    if (runStart === -1) return;
+    created.push({
+      id: `manual-${Date.now()}-${runStart}`,
+      type: 'manual',
+      word: words.slice(runStart, end + 1).map(w => w.text).join(' '),
+      start: words[runStart].start,
+      end: words[end].end,
+      confidence: 1,
+      status: 'accepted'
+    });
+    runStart = -1;
+  };
+
+  for (let i = from; i <= to; i++) {
+    const cut = wordCuts[i];
+    if (cut) {
+      closeRun(i - 1);
+      accept.add(cut.id);
+    } else if (runStart === -1) {
+      runStart = i;
+    }
+  }
+  closeRun(to);
+
+  return cuts
+    .map(c => accept.has(c.id) ? { ...c, status: 'accepted' as const } : c)
+    .concat(created)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Restores the words in `[from, to]`. A cut is split around the restored words
+ * so the rest of it stays cut; the restored part of a detected cut is rejected,
+ * and that of a manual cut removed. A cut with all its words restored is
+ * rejected or removed whole.
+ */
+const restoreWords = (words: TranscriptWord[], wordCuts: (CutEvent | null)[], from: number, to: number, cuts: CutEvent[]): CutEvent[] => {
+  const affected = new Set<string>();
+  for (let i = from; i <= to; i++) {
+    const cut = wordCuts[i];
+    if (cut) affected.add(cut.id);
+  }
+
+  const restorePiece = (piece: CutEvent): CutEvent[] =>
+    piece.type === 'manual' ? [] : [{ ...piece, status: 'rejected' }];
+
+  return cuts
+    .flatMap(cut => {
+      if (!affected.has(cut.id)) return [cut];
+      const indices = wordCuts.flatMap((c, i) => (c?.id === cut.id ? [i] : []));
+      const restored = (i: number) => i >= from && i <= to;
+      if (indices.every(restored)) return restorePiece(cut);
+
+      // Split between neighbouring words where the restored state changes
+      const pieces: { cut: CutEvent; restored: boolean }[] = [];
+      let rest = cut;
+      let restRestored = restored(indices[0]);
+      for (let k = 1; k < indices.length; k++) {
+        const next = restored(indices[k]);
+        if (next === restRestored) continue;
+        const parts = splitCut(rest, (words[indices[k - 1]].end + words[indices[k]].start) / 2, words);
+        if (!parts) {
+          // Too short to split: keep the piece cut rather than restore words the user did not pick
+          restRestored = false;
+          continue;
+        }
+        pieces.push({ cut: parts[0], restored: restRestored });
+        rest = parts[1];
+        restRestored = next;
+      }
+      pieces.push({ cut: rest, restored: restRestored });
+      return pieces.flatMap(p => (p.restored ? restorePiece(p.cut) : [p.cut]));
+    })
+    .sort((a, b) => a.start - b.start);
+};
+
+interface WordSpanProps {
+  index: number;
+  text: string;
+  cut: CutEvent | null;
+  isCurrent: boolean;
+  isSelected: boolean;
+}
+
+// Memoised so playhead updates only re-render the words whose highlight changed
+const WordSpan = memo(({ index, text, cut, isCurrent, isSelected }: WordSpanProps) => {
+  const struck = cut?.status === 'accepted';
+  return (
+    <span
+      data-word-index={index}
+      className={`rounded px-0.5 cursor-pointer transition-colors ${
+        cut ? getCutColor(cut.type) : 'text-slate-200 hover:bg-slate-800'
+      } ${struck ? 'line-through decoration-2 opacity-70' : ''} ${
+        cut && !struck ? 'underline decoration-dotted underline-offset-4' : ''
+      } ${isCurrent ? 'bg-indigo-500/30' : ''} ${isSelected ? 'bg-indigo-500/50 text-white' : ''}`}
+    >
+      {text}
+    </span>
+  );
+});
+
+/**
+ * Edits the video as a document: struck-through words are cut, restored words are kept.
+ * Click a word to toggle it, drag to select a range, Alt+click to jump the player to a word.
+ */
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+  transcript,
+  cuts,
+  onEditCuts,
+  currentTime,
+  onSeek
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<[number, number] | null>(null);
+  const { words } = transcript;
+
+  const wordCuts = useMemo(() => mapWordsToCuts(words, cuts), [words, cuts]);
+
+  // Binary search for the word under the playhead
+  const currentIndex = useMemo(() => {
+    let lo = 0;
+    let hi = words.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (words[mid].end < currentTime) lo = mid + 1;
+      else if (words[mid].start > currentTime) hi = mid - 1;
+      else return mid;
+    }
+    return -1;
+  }, [words, currentTime]);
+
+  const wordIndexFromNode = (node: Node | null): number | null => {
+    const el = node instanceof HTMLElement ? node : node?.parentElement;
+    const target = el?.closest('[data-word-index]');
+    return target ? Number(target.getAttribute('data-word-index')) : null;
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    const sel = window.getSelection();
+    if (sel && !sel.isCollapsed && containerRef.current?.contains(sel.anchorNode)) {
+      const a = wordIndexFromNode(sel.anchorNode);
+      const b = wordIndexFromNode(sel.focusNode);
+      if (a !== null && b !== null) {
+        setSelection([Math.min(a, b), Math.max(a, b)]);
+        return;
+      }
+    }
+
+    const index = wordIndexFromNode(e.target as Node);
+    setSelection(null);
+    if (index === null) return;
+
+    if (e.altKey) {
+      onSeek(words[index].start);
+      return;
+    }
+    if (wordCuts[index]?.status === 'accepted') {
+      onEditCuts(`Restore "${words[index].text}"`, prev => restoreWords(words, wordCuts, index, index, prev));
+    } else {
+      onEditCuts(`Cut "${words[index].text}"`, prev => strikeWords(words, wordCuts, index, index, prev));
+    }
+  };
+
+  const applyToSelection = (action: 'strike' | 'restore') => {
+    if (!selection) return;
+    const [from, to] = selection;
+    const count = to - from + 1;
+    if (action === 'strike') {
+      onEditCuts(`Cut ${count} words`, prev => strikeWords(words, wordCuts, from, to, prev));
+    } else {
+      onEditCuts(`Restore ${count} words`, prev => restoreWords(words, wordCuts, from, to, prev));
+    }
+    setSelection(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  if (words.length === 0) {
+    return (
+      <div className="text-center p-8 text-slate-500">
+        The transcript is empty.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-slate-800 text-xs text-slate-500">
+        {selection ? (
+          <>
+            <span>{selection[1] - selection[0] + 1} words selected</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => applyToSelection('strike')}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-red-500/20 text-red-300 hover:bg-red-500/30"
+              >
+                <Strikethrough className="w-3 h-3" /> Cut
+              </button>
+              <button
+                onClick={() => applyToSelection('restore')}
+                className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 text-slate-200 hover:bg-slate-600"
+              >
+                <Undo2 className="w-3 h-3" /> Restore
+              </button>
+            </div>
+          </>
+        ) : (
+          <span>Click a word to cut or restore it. Alt+click to jump to it.</span>
+        )}
+      </div>
+      <div
+        ref={containerRef}
+        className="flex-1 overflow-y-auto p-4 text-sm leading-7 select-text"
+        onMouseUp={handleMouseUp}
+      >
+        {words.map((w, i) => (
+          <React.Fragment key={i}>
+            <WordSpan
+              index={i}
+              text={w.text}
+              cut={wordCuts[i]}
+              isCurrent={i === currentIndex}
+              isSelected={selection !== null && i >= selection[0] && i <= selection[1]}
+            />{' '}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
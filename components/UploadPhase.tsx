@@ -1,7 +1,13 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileVideo, X, Plus, Save, Trash2, FolderOpen, Settings, Film } from 'lucide-react';
-import { VideoConfig, PhraseList, OutputFormat, OutputQuality } from '../types';
+import { Upload, FileVideo, X, Plus, Save, Trash2, Settings, Film, Mic, Copy, History, Bot, UserRound } from 'lucide-react';
+import { VideoConfig, PhraseList, OutputFormat, OutputQuality, TranscriptionProviderId, TranscriptionSettings, LlmProviderId, LlmSettings, ProjectSummary, SilenceHandling, SilenceMode } from '../types';
 import { Button } from './Button';
+import { PhraseListManager } from './PhraseListManager';
+import { CategoryRulesEditor } from './CategoryRulesEditor';
+import { CutNormalizationEditor } from './CutNormalizationEditor';
+import { dedupePhrases } from '../services/phraseListService';
+import { CROSSFADE_MS_RANGE } from '../services/audioJoinService';
+import { transcriptionSetupError } from '../services/transcriptionService';
 
 interface UploadPhaseProps {
   onFileSelect: (file: File) => void;
@@ -9,8 +15,16 @@ interface UploadPhaseProps {
   setConfig: React.Dispatch<React.SetStateAction<VideoConfig>>;
   onStartAnalysis: () => void;
   savedLists: PhraseList[];
-  onSaveList: (name: string, phrases: string[]) => void;
+  onSaveList: (name: string, phrases: string[]) => Promise<PhraseList | null>;
+  onUpdateList: (list: PhraseList) => void;
   onDeleteList: (id: string) => void;
+  onMergeLists: (ids: string[], name: string) => void;
+  onImportLists: (lists: Pick<PhraseList, 'name' | 'phrases'>[]) => void;
+  projects: ProjectSummary[];
+  onOpenProject: (id: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
+  speakers: string[]; // names already in the coaching history, offered as suggestions
 }
 
 export const UploadPhase: React.FC<UploadPhaseProps> = ({
@@ -20,12 +34,19 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
   onStartAnalysis,
   savedLists,
   onSaveList,
-  onDeleteList
+  onUpdateList,
+  onDeleteList,
+  onMergeLists,
+  onImportLists,
+  projects,
+  onOpenProject,
+  onDuplicateProject,
+  onDeleteProject,
+  speakers
 }) => {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [newPhrase, setNewPhrase] = useState('');
-  const [selectedListId, setSelectedListId] = useState<string>('');
   
   // State for saving new list
   const [isNamingList, setIsNamingList] = useState(false);
@@ -76,10 +97,10 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
   };
 
   const addCustomPhrase = () => {
-    if (newPhrase.trim() && config.customPhrases.length < 10) {
+    if (newPhrase.trim()) {
       setConfig(prev => ({
         ...prev,
-        customPhrases: [...prev.customPhrases, newPhrase.trim()]
+        customPhrases: dedupePhrases([...prev.customPhrases, newPhrase])
       }));
       setNewPhrase('');
     }
@@ -92,17 +113,32 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
     }));
   };
 
-  const handleLoadList = (listId: string) => {
-    setSelectedListId(listId);
-    const list = savedLists.find(l => l.id === listId);
-    if (list) {
-      setConfig(prev => ({ ...prev, customPhrases: [...list.phrases] }));
-    }
+  // Analysis never falls back to sample data, so it waits for a usable provider
+  const setupError = transcriptionSetupError(config.transcription);
+
+  const updateTranscription = (patch: Partial<TranscriptionSettings>) => {
+    setConfig(prev => ({ ...prev, transcription: { ...prev.transcription, ...patch } }));
   };
 
-  const saveCurrentList = () => {
+  const updateLlm = (patch: Partial<LlmSettings>) => {
+    setConfig(prev => ({ ...prev, llm: { ...prev.llm, ...patch } }));
+  };
+
+  const silence = config.normalization.silence;
+  const updateSilence = (patch: Partial<SilenceHandling>) => {
+    setConfig(prev => ({ ...prev, normalization: { ...prev.normalization, silence: { ...prev.normalization.silence, ...patch } } }));
+  };
+
+  // Saved phrases move into the new list, which becomes active in their place
+  const saveCurrentList = async () => {
     if (newListName.trim() && config.customPhrases.length > 0) {
-        onSaveList(newListName.trim(), config.customPhrases);
+        const list = await onSaveList(newListName.trim(), config.customPhrases);
+        if (!list) return;
+        setConfig(prev => ({
+          ...prev,
+          customPhrases: [],
+          activePhraseListIds: [...prev.activePhraseListIds, list.id]
+        }));
         setIsNamingList(false);
         setNewListName('');
     }
@@ -176,6 +212,26 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
                 </label>
               )}
             </div>
+
+            <div>
+              <label htmlFor="speaker-name" className="text-sm font-medium text-slate-300 flex items-center gap-2 mb-2">
+                <UserRound className="w-4 h-4 text-indigo-400" />
+                Speaker
+              </label>
+              <input
+                id="speaker-name"
+                type="text"
+                list="known-speakers"
+                value={config.speaker}
+                onChange={(e) => setConfig(prev => ({ ...prev, speaker: e.target.value }))}
+                placeholder="Who is speaking? (optional)"
+                className="w-full bg-slate-800 border border-slate-700 text-white text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2"
+              />
+              <datalist id="known-speakers">
+                {speakers.map(name => <option key={name} value={name} />)}
+              </datalist>
+              <p className="text-xs text-slate-500 mt-1">Processed videos are added to this speaker's coaching history.</p>
+            </div>
           </div>
 
           {/* Right: Configuration */}
@@ -191,9 +247,9 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
                 {[
                   { key: 'removeCliches', label: 'Remove Clichés', desc: 'e.g., "Praise the Lord"' },
                   { key: 'removeFillers', label: 'Remove Filler Words', desc: 'e.g., "Um", "Uh"' },
-                  { key: 'removeRepetition', label: 'Remove Repetitions', desc: 'e.g., "I mean, I mean"' },
+                  { key: 'removeRepetition', label: 'Remove Repetitions', desc: 'e.g., "I mean, I mean", false starts' },
                   { key: 'removeStuttering', label: 'Remove Stuttering', desc: 'e.g., "Th-th-the"' },
-                  { key: 'removeSilence', label: 'Truncate Silence', desc: config.removeSilence ? `>${config.silenceThreshold}s` : 'Remove silent gaps' },
+                  { key: 'removeSilence', label: 'Truncate Silence', desc: config.removeSilence ? `>${config.silenceThreshold}s${silence.mode === 'shorten' ? `, shortened to ${silence.keepSeconds}s` : ''}` : 'Remove silent gaps' },
                 ].map((item) => (
                   <div key={item.key} className={`p-3 rounded-lg bg-slate-800/50 border border-slate-700/50 transition-all duration-200 flex flex-col ${item.key === 'removeSilence' ? 'sm:col-span-2' : ''}`}>
                     <div className="flex items-start justify-between mb-2">
@@ -233,54 +289,102 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
                            onChange={(e) => setConfig(prev => ({ ...prev, silenceThreshold: parseFloat(e.target.value) }))}
                            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
                          />
+                         <div className="flex justify-between items-center mb-1 mt-2">
+                            <label className="text-[10px] text-slate-400">Silence Floor</label>
+                            <span className="text-[10px] font-mono text-indigo-400 bg-indigo-500/10 px-1.5 py-0.5 rounded">
+                              {config.silenceFloorDb} dB
+                            </span>
+                         </div>
+                         <input
+                           type="range"
+                           min="-70"
+                           max="-20"
+                           step="1"
+                           value={config.silenceFloorDb}
+                           onChange={(e) => setConfig(prev => ({ ...prev, silenceFloorDb: parseInt(e.target.value, 10) }))}
+                           className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+                         />
+                         <div className="flex justify-between items-center mb-1 mt-2">
+                            <label className="text-[10px] text-slate-400">Pauses</label>
+                            <div className="flex rounded overflow-hidden border border-slate-700 text-[10px]">
+                              {(['remove', 'shorten'] as SilenceMode[]).map(mode => (
+                                <button
+                                  key={mode}
+                                  onClick={() => updateSilence({ mode })}
+                                  className={`px-2 py-0.5 capitalize ${silence.mode === mode ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}
+                                >
+                                  {mode}
+                                </button>
+                              ))}
+                            </div>
+                         </div>
+                         {silence.mode === 'shorten' && (
+                           <>
+                             <div className="flex justify-between items-center mb-1 mt-2">
+                                <label className="text-[10px] text-slate-400">Keep</label>
+                                <span className="text-[10px] font-mono text-indigo-400 bg-indigo-500/10 px-1.5 py-0.5 rounded">
+                                  {silence.keepSeconds.toFixed(2)}s
+                                </span>
+                             </div>
+                             <input
+                               type="range"
+                               min="0.1"
+                               max="1.5"
+                               step="0.05"
+                               value={silence.keepSeconds}
+                               onChange={(e) => updateSilence({ keepSeconds: parseFloat(e.target.value) })}
+                               className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+                             />
+                             <div className="flex justify-between items-center mb-1 mt-2">
+                                <label className="text-[10px] text-slate-400" title="Long pauses keep this share of their extra length">Scale with pause</label>
+                                <span className="text-[10px] font-mono text-indigo-400 bg-indigo-500/10 px-1.5 py-0.5 rounded">
+                                  {Math.round(silence.keepRatio * 100)}%
+                                </span>
+                             </div>
+                             <input
+                               type="range"
+                               min="0"
+                               max="0.5"
+                               step="0.05"
+                               value={silence.keepRatio}
+                               onChange={(e) => updateSilence({ keepRatio: parseFloat(e.target.value) })}
+                               className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+                             />
+                           </>
+                         )}
                       </div>
                     )}
                   </div>
                 ))}
               </div>
 
+              <CategoryRulesEditor
+                rules={config.categoryRules}
+                onChange={(categoryRules) => setConfig(prev => ({ ...prev, categoryRules }))}
+              />
+
+              <CutNormalizationEditor
+                value={config.normalization}
+                onChange={(normalization) => setConfig(prev => ({ ...prev, normalization }))}
+              />
+
               {/* List Management Section */}
               <div className="pt-4 border-t border-slate-800">
-                 <div className="flex justify-between items-center mb-2">
-                    <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                        <FolderOpen className="w-4 h-4 text-indigo-400" />
-                        Load Phrase List
-                    </label>
-                 </div>
-                 <div className="flex gap-2">
-                    <select 
-                        value={selectedListId}
-                        onChange={(e) => handleLoadList(e.target.value)}
-                        className="flex-1 bg-slate-800 border border-slate-700 text-white text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2.5"
-                    >
-                        <option value="">Select a list...</option>
-                        {savedLists.map((list) => (
-                            <option key={list.id} value={list.id}>
-                                {list.name} ({list.phrases.length})
-                            </option>
-                        ))}
-                    </select>
-                    {selectedListId && (
-                        <button 
-                            onClick={() => {
-                                if (window.confirm("Are you sure you want to delete this list?")) {
-                                    onDeleteList(selectedListId);
-                                    setSelectedListId('');
-                                }
-                            }}
-                            className="p-2.5 text-slate-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors border border-transparent hover:border-red-900/30"
-                            title="Delete Selected List"
-                        >
-                            <Trash2 className="w-4 h-4" />
-                        </button>
-                    )}
-                 </div>
+                <PhraseListManager
+                  lists={savedLists}
+                  activeIds={config.activePhraseListIds}
+                  onActiveIdsChange={(ids) => setConfig(prev => ({ ...prev, activePhraseListIds: ids }))}
+                  onUpdateList={onUpdateList}
+                  onDeleteList={onDeleteList}
+                  onMergeLists={onMergeLists}
+                  onImportLists={onImportLists}
+                />
               </div>
 
               {/* Custom Phrases */}
               <div className="pt-2">
                 <label className="block text-sm font-medium text-slate-300 mb-2">
-                  Active Custom Phrases ({config.customPhrases.length}/10)
+                  Extra Phrases ({config.customPhrases.length})
                 </label>
                 
                 {/* Input Area */}
@@ -292,11 +396,10 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
                     onKeyDown={(e) => e.key === 'Enter' && addCustomPhrase()}
                     placeholder="Type (e.g., 'sort of')"
                     className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
-                    disabled={config.customPhrases.length >= 10}
                   />
                   <button
                     onClick={addCustomPhrase}
-                    disabled={!newPhrase || config.customPhrases.length >= 10}
+                    disabled={!newPhrase.trim()}
                     className="p-2 bg-slate-700 rounded-lg hover:bg-slate-600 disabled:opacity-50 text-white"
                   >
                     <Plus className="w-5 h-5" />
@@ -306,7 +409,7 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
                 {/* Chips */}
                 <div className="flex flex-wrap gap-2 mb-3">
                   {config.customPhrases.length === 0 && (
-                      <span className="text-xs text-slate-600 italic">No custom phrases added.</span>
+                      <span className="text-xs text-slate-600 italic">No extra phrases. These are detected alongside the active lists.</span>
                   )}
                   {config.customPhrases.map((phrase, index) => (
                     <span key={index} className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium bg-indigo-900/50 text-indigo-200 border border-indigo-700/50">
@@ -361,6 +464,140 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
                 )}
               </div>
 
+              {/* Transcription Settings */}
+              <div className="pt-4 border-t border-slate-800">
+                <label className="text-sm font-medium text-slate-300 flex items-center gap-2 mb-3">
+                    <Mic className="w-4 h-4 text-indigo-400" />
+                    Transcription
+                </label>
+                <div className="space-y-2">
+                  <select
+                    value={config.transcription.provider ?? ''}
+                    onChange={(e) => updateTranscription({ provider: (e.target.value || null) as TranscriptionProviderId | null })}
+                    className="w-full bg-slate-800 border border-slate-700 text-white text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2"
+                  >
+                    <option value="" disabled>Choose a provider...</option>
+                    <option value="gemini">Gemini (cloud)</option>
+                    <option value="whisper">Whisper-compatible server (local)</option>
+                    <option value="fixture">Transcript file (demos and benchmarks)</option>
+                  </select>
+                  {config.transcription.provider === 'whisper' && (
+                    <div className="grid grid-cols-3 gap-2 animate-fade-in">
+                      <input
+                        type="url"
+                        value={config.transcription.whisperEndpoint}
+                        onChange={(e) => updateTranscription({ whisperEndpoint: e.target.value })}
+                        placeholder="http://localhost:8000"
+                        className="col-span-2 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                      />
+                      <input
+                        type="text"
+                        value={config.transcription.whisperModel}
+                        onChange={(e) => updateTranscription({ whisperModel: e.target.value })}
+                        placeholder="Model"
+                        className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                      />
+                    </div>
+                  )}
+                  {config.transcription.provider === 'fixture' && (
+                    <div className="space-y-1 animate-fade-in">
+                      <input
+                        type="text"
+                        value={config.transcription.fixtureUrl}
+                        onChange={(e) => updateTranscription({ fixtureUrl: e.target.value })}
+                        placeholder="/fixtures/sample-transcript.json"
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                      />
+                      <p className="text-[10px] text-amber-400">The file's words are used instead of the video's speech. Only use it with the video it was made for.</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Language Model Settings */}
+              <div className="pt-4 border-t border-slate-800">
+                <label className="text-sm font-medium text-slate-300 flex items-center gap-2 mb-3">
+                    <Bot className="w-4 h-4 text-indigo-400" />
+                    Language Model
+                </label>
+                <div className="space-y-2">
+                  <select
+                    value={config.llm.provider}
+                    onChange={(e) => updateLlm({ provider: e.target.value as LlmProviderId })}
+                    className="w-full bg-slate-800 border border-slate-700 text-white text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block p-2"
+                  >
+                    <option value="gemini">Gemini (cloud)</option>
+                    <option value="openai">OpenAI-compatible server (self-hosted)</option>
+                    <option value="stub">Stub (offline, rules only)</option>
+                  </select>
+                  {config.llm.provider === 'gemini' && (
+                    <div className="animate-fade-in space-y-1">
+                      <input
+                        type="text"
+                        value={config.llm.geminiModel}
+                        onChange={(e) => updateLlm({ geminiModel: e.target.value })}
+                        placeholder="gemini-2.5-flash"
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                      />
+                      {!process.env.API_KEY && (
+                        <p className="text-[10px] text-slate-500">No API key set: clichés and repetitions are found by word lists instead.</p>
+                      )}
+                    </div>
+                  )}
+                  {config.llm.provider === 'openai' && (
+                    <div className="grid grid-cols-3 gap-2 animate-fade-in">
+                      <input
+                        type="url"
+                        value={config.llm.openaiEndpoint}
+                        onChange={(e) => updateLlm({ openaiEndpoint: e.target.value })}
+                        placeholder="http://localhost:11434"
+                        className="col-span-2 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                      />
+                      <input
+                        type="text"
+                        value={config.llm.openaiModel}
+                        onChange={(e) => updateLlm({ openaiModel: e.target.value })}
+                        placeholder="Model"
+                        className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                      />
+                      <input
+                        type="password"
+                        value={config.llm.openaiApiKey}
+                        onChange={(e) => updateLlm({ openaiApiKey: e.target.value })}
+                        placeholder="API key (optional)"
+                        className="col-span-3 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+                      />
+                    </div>
+                  )}
+                  {config.llm.provider !== 'stub' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                        Timeout (s)
+                        <input
+                          type="number"
+                          min={5}
+                          max={600}
+                          value={config.llm.timeoutSeconds}
+                          onChange={(e) => updateLlm({ timeoutSeconds: Math.max(5, Number(e.target.value) || 0) })}
+                          className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                        />
+                      </label>
+                      <label className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                        Retries
+                        <input
+                          type="number"
+                          min={0}
+                          max={5}
+                          value={config.llm.maxRetries}
+                          onChange={(e) => updateLlm({ maxRetries: Math.max(0, Math.min(5, Math.round(Number(e.target.value) || 0))) })}
+                          className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                        />
+                      </label>
+                    </div>
+                  )}
+                </div>
+              </div>
+
               {/* Export Settings */}
               <div className="pt-4 border-t border-slate-800">
                 <label className="text-sm font-medium text-slate-300 flex items-center gap-2 mb-3">
@@ -399,6 +636,32 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
                       </select>
                   </div>
                 </div>
+                <div className="mt-3 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-xs text-slate-500" title="Equal-power crossfade at every join, to avoid clicks">Crossfade at cuts</label>
+                    <span className="text-[10px] font-mono text-indigo-400 bg-indigo-500/10 px-1.5 py-0.5 rounded">
+                      {config.audioJoins.crossfadeMs} ms
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={CROSSFADE_MS_RANGE.min}
+                    max={CROSSFADE_MS_RANGE.max}
+                    step="1"
+                    value={config.audioJoins.crossfadeMs}
+                    onChange={(e) => setConfig(prev => ({ ...prev, audioJoins: { ...prev.audioJoins, crossfadeMs: parseInt(e.target.value, 10) } }))}
+                    className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 hover:accent-indigo-400"
+                  />
+                  <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={config.audioJoins.roomTone}
+                      onChange={(e) => setConfig(prev => ({ ...prev, audioJoins: { ...prev.audioJoins, roomTone: e.target.checked } }))}
+                      className="accent-indigo-500"
+                    />
+                    Bridge removed silences with room tone
+                  </label>
+                </div>
               </div>
 
             </div>
@@ -406,16 +669,62 @@ export const UploadPhase: React.FC<UploadPhaseProps> = ({
         </div>
 
         {/* Footer */}
-        <div className="p-6 bg-slate-800/50 border-t border-slate-800 flex justify-end">
+        <div className="p-6 bg-slate-800/50 border-t border-slate-800 flex flex-col md:flex-row md:items-center justify-end gap-3">
+          {setupError && <p className="text-sm text-amber-400">{setupError}</p>}
           <Button 
             onClick={onStartAnalysis} 
-            disabled={!selectedFile}
+            disabled={!selectedFile || setupError !== null}
             className="w-full md:w-auto px-8"
           >
             Analyze Video
           </Button>
         </div>
       </div>
+
+      {/* Saved Projects */}
+      {projects.length > 0 && (
+        <div className="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden shadow-2xl">
+          <div className="px-6 py-4 border-b border-slate-800 flex items-center gap-2">
+            <History className="w-4 h-4 text-indigo-400" />
+            <h3 className="font-semibold text-white">Resume a Project</h3>
+          </div>
+          <ul className="divide-y divide-slate-800">
+            {projects.map(project => (
+              <li key={project.id} className="px-6 py-3 flex items-center justify-between gap-4 hover:bg-slate-800/40 transition-colors">
+                <button onClick={() => onOpenProject(project.id)} className="flex-1 min-w-0 text-left">
+                  <p className="font-medium text-slate-200 truncate">{project.name}</p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {project.fileName} • {(project.fileSize / (1024 * 1024)).toFixed(1)} MB • {project.cutsCount} cuts • edited {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+                </button>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button variant="ghost" onClick={() => onOpenProject(project.id)} className="px-3 py-1.5">
+                    Open
+                  </Button>
+                  <button
+                    onClick={() => onDuplicateProject(project.id)}
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                    title="Duplicate Project"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm("Delete this project and its stored video?")) {
+                        onDeleteProject(project.id);
+                      }
+                    }}
+                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-900/20 rounded-lg transition-colors"
+                    title="Delete Project"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  estimateHeight: number; // px, used until a row has been measured
+  gap?: number; // px between rows
+  scrollToKey?: string | null; // brought into view whenever it changes
+  className?: string;
+}
+
+// Extra pixels rendered above and below the viewport so fast scrolling does not show gaps
+const OVERSCAN = 400;
+
+/**
+ * Scrolling list that only mounts the rows in and near the viewport. Rows may
+ * differ in height; each is measured once rendered and the offsets follow.
+ */
+export const VirtualList = <T,>({ items, getKey, renderItem, estimateHeight, gap = 8, scrollToKey, className = '' }: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const heightsRef = useRef(new Map<string, number>());
+  const [measured, setMeasured] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setViewportHeight(entries[0].contentRect.height));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // One observer for every mounted row; a changed height re-lays out the list
+  const rowObserver = useMemo(() => new ResizeObserver(entries => {
+    let changed = false;
+    for (const entry of entries) {
+      const key = (entry.target as HTMLElement).dataset.key!;
+      const height = Math.round(entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height);
+      if (heightsRef.current.get(key) !== height) {
+        heightsRef.current.set(key, height);
+        changed = true;
+      }
+    }
+    if (changed) setMeasured(m => m + 1);
+  }), []);
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  const observeRow = useCallback((element: HTMLDivElement) => {
+    rowObserver.observe(element);
+    return () => rowObserver.unobserve(element);
+  }, [rowObserver]);
+
+  // offsets[i] is the top of row i; offsets[items.length] the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(items.length + 1);
+    items.forEach((item, i) => {
+      result[i + 1] = result[i] + (heightsRef.current.get(getKey(item)) ?? estimateHeight) + gap;
+    });
+    return result;
+  }, [items, getKey, estimateHeight, gap, measured]);
+
+  // First row whose bottom is below `y`
+  const rowAt = (y: number) => {
+    let lo = 0;
+    let hi = items.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid + 1] <= y) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const first = rowAt(scrollTop - OVERSCAN);
+  const last = Math.min(items.length, rowAt(scrollTop + viewportHeight + OVERSCAN) + 1);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !scrollToKey) return;
+    const index = items.findIndex(item => getKey(item) === scrollToKey);
+    if (index < 0) return;
+    const top = offsets[index];
+    const bottom = offsets[index + 1] - gap;
+    if (top < container.scrollTop) container.scrollTo({ top, behavior: 'smooth' });
+    else if (bottom > container.scrollTop + container.clientHeight) container.scrollTo({ top: bottom - container.clientHeight, behavior: 'smooth' });
+    // Only when the target changes, not on every re-measure
+  }, [scrollToKey]);
+
+  return (
+    <div ref={containerRef} className={`overflow-y-auto ${className}`} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+      <div className="relative" style={{ height: offsets[items.length] }}>
+        {items.slice(first, last).map((item, i) => {
+          const key = getKey(item);
+          return (
+            <div key={key} ref={observeRow} data-key={key} className="absolute left-0 right-0" style={{ top: offsets[first + i] }}>
+              {renderItem(item)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
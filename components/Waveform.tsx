@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { computeWaveform, decodeAudio } from '../services/audioService';
+
+interface WaveformProps {
+  file: File | null;
+  start: number; // visible range, seconds
+  end: number;
+  barWidth?: number; // px per bucket, including the gap
+  className?: string;
+}
+
+/**
+ * Draws the file's real audio as peak/RMS bars for the visible range.
+ * The bucket count follows the rendered width, so resizing or zooming redraws at full detail.
+ */
+export const Waveform: React.FC<WaveformProps> = ({ file, start, end, barWidth = 3, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Decode (or fetch from cache) whenever the file changes
+  useEffect(() => {
+    setBuffer(null);
+    if (!file) return;
+    let cancelled = false;
+    decodeAudio(file)
+      .then(decoded => { if (!cancelled) setBuffer(decoded); })
+      .catch(error => console.warn("Waveform unavailable", error));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Track the canvas size so bucket count matches the available pixels
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => {
+      const rect = entries[0].contentRect;
+      setSize({ width: Math.floor(rect.width), height: Math.floor(rect.height) });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0 || size.height === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    if (!buffer || end <= start) return;
+
+    const buckets = Math.max(1, Math.floor(size.width / barWidth));
+    const { peaks, rms } = computeWaveform(buffer, buckets, start, end);
+    const mid = size.height / 2;
+    const step = size.width / buckets;
+    const bar = Math.max(1, step - 1);
+
+    // Peaks in a light tone, RMS body on top in a brighter one
+    ctx.fillStyle = 'rgba(148, 163, 184, 0.6)'; // slate-400
+    for (let i = 0; i < buckets; i++) {
+      const h = Math.max(1, peaks[i] * size.height * 0.9);
+      ctx.fillRect(i * step, mid - h / 2, bar, h);
+    }
+    ctx.fillStyle = 'rgba(203, 213, 225, 0.9)'; // slate-300
+    for (let i = 0; i < buckets; i++) {
+      const h = Math.max(1, rms[i] * size.height * 0.9);
+      ctx.fillRect(i * step, mid - h / 2, bar, h);
+    }
+  }, [buffer, size, start, end, barWidth]);
+
+  return <canvas ref={canvasRef} className={`w-full h-full ${className}`} />;
+};
@@ -0,0 +1,42 @@
+import { CutType } from '../types';
+
+// Shared color scheme for cut types, used by the timeline, the event list and the transcript editor.
+export const getCutColor = (type: CutType | string, isBg = false) => {
+    switch(type) {
+        case 'cliche': return isBg ? 'bg-pink-500' : 'text-pink-400';
+        case 'filler': return isBg ? 'bg-amber-500' : 'text-amber-400';
+        case 'repetition': return isBg ? 'bg-blue-500' : 'text-blue-400';
+        case 'stutter': return isBg ? 'bg-purple-500' : 'text-purple-400';
+        case 'false-start': return isBg ? 'bg-lime-500' : 'text-lime-400';
+        case 'custom': return isBg ? 'bg-cyan-500' : 'text-cyan-400';
+        case 'manual': return isBg ? 'bg-emerald-500' : 'text-emerald-400';
+        default: return isBg ? 'bg-slate-500' : 'text-slate-400';
+    }
+};
+
+export const getCutBadgeStyles = (type: CutType | string) => {
+    switch(type) {
+        case 'cliche': return 'bg-pink-500/20 text-pink-400';
+        case 'filler': return 'bg-amber-500/20 text-amber-400';
+        case 'repetition': return 'bg-blue-500/20 text-blue-400';
+        case 'stutter': return 'bg-purple-500/20 text-purple-400';
+        case 'false-start': return 'bg-lime-500/20 text-lime-400';
+        case 'custom': return 'bg-cyan-500/20 text-cyan-400';
+        case 'manual': return 'bg-emerald-500/20 text-emerald-400';
+        default: return 'bg-slate-500/20 text-slate-400';
+    }
+};
+
+// The same colors as hex, for canvas drawing such as the timeline minimap
+export const getCutHex = (type: CutType | string) => {
+    switch(type) {
+        case 'cliche': return '#ec4899';
+        case 'filler': return '#f59e0b';
+        case 'repetition': return '#3b82f6';
+        case 'stutter': return '#a855f7';
+        case 'false-start': return '#84cc16';
+        case 'custom': return '#06b6d4';
+        case 'manual': return '#10b981';
+        default: return '#64748b';
+    }
+};
@@ -0,0 +1,63 @@
+// Times the cut index over the benchmark fixture (about 10,000 filler cuts in an
+// hour), with a long pause near the start that a linear scan would trip over,
+// and checks its answers against a brute-force search.
+//
+//   npm run check:cut-index
+//
+// Generates public/fixtures/benchmark-transcript.json first if it is missing.
+// Exits non-zero when a lookup is wrong or slower than its budget.
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { CutEvent, TranscriptWord } from '../types';
+import { createCutIndex } from '../services/cutIndexService';
+import { detectTranscriptCuts } from '../services/detectionService';
+
+// Per lookup, averaged. A linear scan takes several times longer here.
+const BUDGET_MS = { at: 0.005, overlapping: 0.01 };
+const LOOKUPS = 100_000;
+
+const fixture = fileURLToPath(new URL('../public/fixtures/benchmark-transcript.json', import.meta.url));
+if (!existsSync(fixture)) {
+  execFileSync(process.execPath, [fileURLToPath(new URL('./generate-benchmark-transcript.mjs', import.meta.url))], { stdio: 'inherit' });
+}
+const words: TranscriptWord[] = JSON.parse(readFileSync(fixture, 'utf8')).words;
+const duration = words[words.length - 1].end;
+
+const cuts: CutEvent[] = [
+  ...detectTranscriptCuts(words),
+  { id: 'long-pause', type: 'silence', start: 2, end: duration - 2, confidence: 1, status: 'accepted' }
+];
+assert.ok(cuts.length > 9_000, `expected about 10,000 cuts, got ${cuts.length}`);
+const index = createCutIndex(cuts);
+
+// Spread evenly, offset so times fall inside cuts as well as between them
+const times = Array.from({ length: LOOKUPS }, (_, i) => ((i * 0.618034) % 1) * duration);
+
+const bruteAt = (time: number) =>
+  index.cuts.filter(c => c.start <= time && c.end > time).at(-1);
+const bruteOverlapping = (start: number, end: number) =>
+  index.cuts.filter(c => c.start <= end && c.end > start);
+
+for (const time of times.slice(0, 500)) {
+  assert.equal(index.at(time)?.id, bruteAt(time)?.id, `at(${time})`);
+  assert.deepEqual(index.overlapping(time - 1.5, time + 1.5).map(c => c.id), bruteOverlapping(time - 1.5, time + 1.5).map(c => c.id), `overlapping(${time})`);
+}
+
+const time = (lookup: (t: number) => unknown) => {
+  const started = performance.now();
+  for (const t of times) lookup(t);
+  return (performance.now() - started) / times.length;
+};
+
+// Warm up first so the JIT has compiled both paths
+time(t => index.at(t));
+time(t => index.overlapping(t - 1.5, t + 1.5));
+const atMs = time(t => index.at(t));
+const overlappingMs = time(t => index.overlapping(t - 1.5, t + 1.5));
+
+console.log(`${cuts.length} cuts: at ${(atMs * 1000).toFixed(2)} µs, overlapping ${(overlappingMs * 1000).toFixed(2)} µs per lookup`);
+assert.ok(atMs < BUDGET_MS.at, `at took ${atMs} ms per lookup, over the ${BUDGET_MS.at} ms budget`);
+assert.ok(overlappingMs < BUDGET_MS.overlapping, `overlapping took ${overlappingMs} ms per lookup, over the ${BUDGET_MS.overlapping} ms budget`);
+console.log('Cut index checks passed');
@@ -0,0 +1,99 @@
+// Runs semantic detection end to end against the mock API server and checks
+// the cuts it produces, through both the OpenAI-compatible and Gemini providers.
+//
+//   npm run check:semantic
+//
+// Exits non-zero on the first failed assertion.
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { LlmSettings, TranscriptWord } from '../types';
+import { DEFAULT_LLM_SETTINGS } from '../services/llmService';
+import { chunkTranscript, detectSemanticCuts, parseSemanticSpans, semanticSpansToCuts } from '../services/semanticDetectionService';
+
+const startMockServer = () => new Promise<{ url: string; stop: () => void }>((resolve, reject) => {
+  const server = spawn(process.execPath, [fileURLToPath(new URL('./mock-gemini-server.mjs', import.meta.url)), '0'], {
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  const timer = setTimeout(() => {
+    server.kill();
+    reject(new Error('The mock server did not start within 10 s'));
+  }, 10_000);
+  server.on('error', reject);
+  server.stdout.setEncoding('utf8');
+  server.stdout.on('data', (chunk: string) => {
+    const match = chunk.match(/listening on (http:\/\/\S+)/);
+    if (!match) return;
+    clearTimeout(timer);
+    resolve({ url: match[1], stop: () => server.kill() });
+  });
+});
+
+// Distinct filler tokens around the phrases, so the mock finds nothing else.
+// The cliché sits where the first two chunks overlap, so both report it.
+const buildTranscript = (): TranscriptWord[] => {
+  const texts = Array.from({ length: 800 }, (_, i) => `w${i}`);
+  texts.splice(372, 6, 'at', 'the', 'end', 'of', 'the', 'day.');
+  texts.splice(100, 4, 'I', 'mean,', 'I', 'mean,');
+  texts.splice(599, 5, 'w599.', 'So', 'what', 'we—', "Let's");
+  return texts.map((text, i) => ({ text, start: i * 0.5, end: i * 0.5 + 0.4, confidence: 0.95 }));
+};
+
+const checkParsing = (words: TranscriptWord[]) => {
+  const chunk = chunkTranscript(words)[0];
+  const spans = parseSemanticSpans({
+    spans: [
+      { type: 'cliche', startWord: 10, endWord: 12, confidence: 1.4, rationale: ' Stock phrase. ' },
+      { type: 'filler', startWord: 1, endWord: 1, confidence: 0.9, rationale: '' }, // not a semantic type
+      { type: 'repetition', startWord: 5, endWord: 4, confidence: 0.9, rationale: '' }, // reversed
+      { type: 'repetition', startWord: 390, endWord: 420, confidence: 0.9, rationale: '' }, // outside the chunk
+      { type: 'false-start', startWord: 0, endWord: 60, confidence: 0.9, rationale: '' }, // too long
+      { type: 'cliche', startWord: '3', endWord: 4 } // no confidence
+    ]
+  }, chunk);
+  assert.deepEqual(spans, [{ type: 'cliche', from: 10, to: 13, confidence: 1, rationale: 'Stock phrase.' }]);
+  assert.deepEqual(parseSemanticSpans('not an object', chunk), []);
+
+  const cuts = semanticSpansToCuts([
+    { type: 'cliche', from: 10, to: 13, confidence: 0.7, rationale: 'first' },
+    { type: 'cliche', from: 11, to: 13, confidence: 0.9, rationale: 'second' },
+    { type: 'repetition', from: 11, to: 13, confidence: 0.8, rationale: '' }
+  ], words);
+  assert.deepEqual(cuts.map(c => [c.type, c.rationale, c.start]), [['cliche', 'second', words[11].start], ['repetition', undefined, words[11].start]]);
+};
+
+const checkDetection = async (llm: LlmSettings, words: TranscriptWord[]) => {
+  const progress: number[] = [];
+  const cuts = await detectSemanticCuts(words, llm, fraction => progress.push(fraction));
+  assert.ok(cuts, `${llm.provider}: detection fell back to the rules`);
+  assert.deepEqual(
+    cuts.map(c => [c.type, c.word, c.start, c.end]),
+    [
+      ['repetition', 'I mean', words[100].start, words[101].end],
+      ['cliche', 'at the end of the day', words[372].start, words[377].end],
+      ['false-start', 'So what we—', words[600].start, words[602].end]
+    ],
+    `${llm.provider}: unexpected cuts`
+  );
+  assert.ok(cuts.every(c => c.status === 'accepted' && c.rationale && c.confidence > 0 && c.confidence <= 1));
+  assert.equal(progress.at(-1), 1);
+};
+
+const { url, stop } = await startMockServer();
+try {
+  const words = buildTranscript();
+  checkParsing(words);
+
+  await checkDetection({ ...DEFAULT_LLM_SETTINGS, provider: 'openai', openaiEndpoint: url, maxRetries: 0, timeoutSeconds: 10 }, words);
+
+  process.env.API_KEY = 'mock';
+  process.env.GEMINI_BASE_URL = url;
+  await checkDetection({ ...DEFAULT_LLM_SETTINGS, provider: 'gemini', maxRetries: 0, timeoutSeconds: 10 }, words);
+
+  const malformed = await fetch(`${url}/v1/chat/completions`, { method: 'POST', body: '{"messages": [' });
+  assert.equal(malformed.status, 400, 'a malformed body should get a 400, not crash the mock');
+
+  console.log('Semantic detection checks passed');
+} finally {
+  stop();
+}
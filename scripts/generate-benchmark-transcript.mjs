@@ -0,0 +1,39 @@
+// Writes a long transcript fixture dense with fillers, for checking that review
+// playback and the cut list stay smooth with thousands of cuts.
+//
+//   node scripts/generate-benchmark-transcript.mjs [cuts=10000] [durationSeconds=3600]
+//
+// Output goes to public/fixtures/benchmark-transcript.json (not committed).
+import { writeFileSync } from 'node:fs';
+
+const cutCount = Number(process.argv[2] ?? 10000);
+const duration = Number(process.argv[3] ?? 3600);
+const outFile = new URL('../public/fixtures/benchmark-transcript.json', import.meta.url);
+
+const WORDS = ['so', 'the', 'team', 'shipped', 'a', 'new', 'build', 'and', 'we', 'measured', 'how', 'it', 'performs', 'today'];
+const FILLERS = ['um', 'uh', 'er', 'you know', 'basically'];
+
+// Seeded so every run produces the same fixture
+let seed = 42;
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+
+const words = [];
+const slot = duration / cutCount;
+for (let i = 0; i < cutCount; i++) {
+  // Each slot holds one filler between ordinary words
+  let time = i * slot + 0.05;
+  const push = (text, length) => {
+    words.push({ text, start: +time.toFixed(3), end: +(time + length).toFixed(3), confidence: +(0.8 + random() * 0.19).toFixed(2) });
+    time += length + 0.02;
+  };
+  const wordLength = Math.min(0.25, slot / 6);
+  push(WORDS[i % WORDS.length], wordLength);
+  for (const part of FILLERS[Math.floor(random() * FILLERS.length)].split(' ')) push(part, wordLength);
+  push(WORDS[(i + 7) % WORDS.length], wordLength);
+}
+
+writeFileSync(outFile, JSON.stringify({ language: 'en', words }));
+console.log(`Wrote ${words.length} words (${cutCount} fillers over ${duration}s) to ${outFile.pathname}`);
@@ -0,0 +1,115 @@
+// A stand-in for the Gemini API and for OpenAI-compatible chat servers, for
+// running semantic detection and the editing report without a key or network access.
+//
+//   node scripts/mock-gemini-server.mjs [port=8787, 0 for any free port]
+//
+// For Gemini, start the app with GEMINI_API_KEY=mock and GEMINI_BASE_URL=http://localhost:8787
+// in .env.local; for the OpenAI-compatible provider, set its endpoint to the same URL.
+// Only text generation is implemented, so pair it with the transcript file
+// provider rather than Gemini transcription.
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] ?? 8787);
+
+const CLICHES = ['at the end of the day', 'to be honest', 'at this point in time', 'it is what it is', 'basically'];
+
+const normalize = (text) => text.toLowerCase().replace(/[^\p{L}\p{N}'-]+/gu, '').replace(/^[-']+|[-']+$/g, '');
+
+// Deterministic stand-ins for what the model would find in "[index]word" lists
+const findSpans = (prompt) => {
+  const words = [...prompt.matchAll(/\[(\d+)\](\S+)/g)].map(([, index, text]) => ({ index: Number(index), text, token: normalize(text) }));
+  const spans = [];
+
+  for (const phrase of CLICHES) {
+    const target = phrase.split(' ');
+    for (let i = 0; i + target.length <= words.length; i++) {
+      if (target.every((t, j) => words[i + j].token === t)) {
+        spans.push({ type: 'cliche', startWord: words[i].index, endWord: words[i + target.length - 1].index, confidence: 0.9, rationale: `"${phrase}" is a stock phrase that adds nothing here.` });
+      }
+    }
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    for (let n = 4; n >= 2; n--) {
+      if (i + 2 * n > words.length) continue;
+      if (words.slice(i, i + n).every((w, j) => w.token && w.token === words[i + n + j].token)) {
+        spans.push({ type: 'repetition', startWord: words[i].index, endWord: words[i + n - 1].index, confidence: 0.85, rationale: 'The speaker says the same phrase twice in a row.' });
+        i += n - 1;
+        break;
+      }
+    }
+  }
+
+  // A word cut off with a dash ends an abandoned opening, which started after the last full stop
+  for (let i = 0; i < words.length; i++) {
+    if (!/[-–—]$/.test(words[i].text) || /^\p{L}-?$/u.test(words[i].text)) continue;
+    let from = i;
+    while (from > 0 && i - from < 6 && !/[.!?]$/.test(words[from - 1].text)) from--;
+    spans.push({ type: 'false-start', startWord: words[from].index, endWord: words[i].index, confidence: 0.8, rationale: 'The sentence is abandoned and started again.' });
+  }
+
+  return spans;
+};
+
+const promptText = (body) => body.messages
+  ? body.messages.map(m => m.content ?? '').join('\n')
+  : (body.contents ?? []).flatMap(c => c.parts ?? []).map(p => p.text ?? '').join('\n');
+
+const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+const reply = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(JSON.stringify(payload));
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': '*'
+    });
+    res.end();
+    return;
+  }
+  const isGemini = /\/models\/[^/]+:generateContent$/.test(req.url ?? '');
+  const isOpenAi = /\/v1\/chat\/completions$/.test(req.url ?? '');
+  if (req.method !== 'POST' || !(isGemini || isOpenAi)) {
+    reply(res, 404, { error: { code: 404, message: `The mock server does not implement ${req.method} ${req.url}`, status: 'NOT_FOUND' } });
+    return;
+  }
+
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(data || '{}');
+    } catch {
+      reply(res, 400, { error: { code: 400, message: 'Request body is not valid JSON', status: 'INVALID_ARGUMENT' } });
+      return;
+    }
+    const prompt = promptText(body);
+    const wantsJson = isGemini ? body.generationConfig?.responseMimeType === 'application/json' : body.response_format !== undefined;
+    const text = wantsJson
+      ? JSON.stringify({ spans: findSpans(prompt) })
+      : 'Your video now flows more tightly and keeps the audience with you. (Mock report)';
+    console.log(`${new Date().toISOString()} ${isGemini ? 'generateContent' : 'chat/completions'} ${wantsJson ? 'detection' : 'text'} (${prompt.length} chars)`);
+    const usage = { input: estimateTokens(prompt), output: estimateTokens(text) };
+    reply(res, 200, isGemini
+      ? {
+          candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+          usageMetadata: { promptTokenCount: usage.input, candidatesTokenCount: usage.output, totalTokenCount: usage.input + usage.output }
+        }
+      : {
+          choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: usage.input, completion_tokens: usage.output, total_tokens: usage.input + usage.output }
+        });
+  });
+});
+
+// Port 0 picks a free port; the line below reports the one in use
+server.listen(port, () => console.log(`Mock Gemini API listening on http://localhost:${server.address().port}`));
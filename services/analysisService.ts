@@ -0,0 +1,204 @@
+import { CutEvent, CutType, Transcript, TranscriptionProviderId, VideoConfig } from "../types";
+import { decodeAudio } from "./audioService";
+import { CustomPhrase } from "./detectionService";
+import { createTranscriptionProvider } from "./transcriptionService";
+import { detectSemanticCuts, SEMANTIC_CUT_TYPES } from "./semanticDetectionService";
+import { AnalysisTask, AnalysisWorkerMessage } from "./analysisWorker";
+
+export type AnalysisStage = 'decode' | 'transcribe' | 'detect' | 'classify';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  progress: number; // 0-1 within the stage
+  overall: number; // 0-1 across the whole analysis
+  eta: number | null; // seconds left, once there is enough to go on
+}
+
+// Share of the overall progress each stage covers. Transcription dominates;
+// detection takes a while too when it goes through the language model.
+const STAGE_RANGES: Record<AnalysisStage, [number, number]> = {
+  decode: [0, 0.1],
+  transcribe: [0.1, 0.7],
+  detect: [0.7, 0.95],
+  classify: [0.95, 1]
+};
+
+// Providers report no progress of their own, so the bar advances on a rough
+// estimate of their speed, in seconds of waiting per second of media.
+const TRANSCRIBE_RATE: Record<TranscriptionProviderId, number> = {
+  gemini: 0.1,
+  whisper: 0.3,
+  fixture: 0
+};
+
+// Estimated progress never completes a stage on its own
+const MAX_ESTIMATED_PROGRESS = 0.95;
+
+const abortError = () => new DOMException("Analysis cancelled", 'AbortError');
+
+/**
+ * Decodes, transcribes and detects cuts in `file`. Rule-based detection and
+ * classification run in a worker; semantic detection waits on the language model. Cuts are passed to `onCuts` in batches as they become
+ * available: silences first, while transcription is still running, then the
+ * speech cuts. Resolves with the transcript once everything is done.
+ * Aborting `signal` stops the worker and rejects with an AbortError.
+ */
+export const runAnalysis = async (
+  file: File,
+  config: VideoConfig,
+  customPhrases: CustomPhrase[],
+  duration: number,
+  onProgress: (p: AnalysisProgress) => void,
+  onCuts: (cuts: CutEvent[]) => void,
+  signal: AbortSignal
+): Promise<Transcript> => {
+  if (signal.aborted) throw abortError();
+  // Fail before decoding when no usable transcription provider is configured
+  const transcriber = createTranscriptionProvider(config.transcription, config.llm);
+
+  const startedAt = performance.now();
+  const report = (stage: AnalysisStage, progress: number) => {
+    if (signal.aborted) return;
+    const [from, to] = STAGE_RANGES[stage];
+    const overall = from + (to - from) * progress;
+    const elapsed = (performance.now() - startedAt) / 1000;
+    onProgress({ stage, progress, overall, eta: overall >= 0.05 ? (elapsed * (1 - overall)) / overall : null });
+  };
+
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  const jobs = new Map<number, { resolve: (cuts: CutEvent[]) => void; reject: (error: Error) => void; onStage?: (stage: AnalysisStage) => void }>();
+  let nextJobId = 0;
+
+  worker.addEventListener('message', (event: MessageEvent<AnalysisWorkerMessage>) => {
+    const message = event.data;
+    const job = jobs.get(message.id);
+    if (!job) return;
+    if (message.kind === 'stage') {
+      job.onStage?.(message.stage);
+      return;
+    }
+    jobs.delete(message.id);
+    if (message.kind === 'done') job.resolve(message.cuts);
+    else job.reject(new Error(message.message));
+  });
+
+  // A worker that fails to load, throws at top level or cannot read a message
+  // answers nothing more, so its pending and later jobs fail instead of hanging
+  let workerFailure: Error | null = null;
+  const handleWorkerFailure = (event: Event) => {
+    event.preventDefault();
+    workerFailure = new Error(event instanceof ErrorEvent && event.message ? `Analysis worker failed: ${event.message}` : "Analysis worker failed");
+    for (const job of jobs.values()) job.reject(workerFailure);
+    jobs.clear();
+  };
+  worker.addEventListener('error', handleWorkerFailure);
+  worker.addEventListener('messageerror', handleWorkerFailure);
+
+  const runJob = (task: AnalysisTask, transfer: Transferable[] = [], onStage?: (stage: AnalysisStage) => void) =>
+    new Promise<CutEvent[]>((resolve, reject) => {
+      if (workerFailure) {
+        reject(workerFailure);
+        return;
+      }
+      const id = nextJobId++;
+      jobs.set(id, { resolve, reject, onStage });
+      worker.postMessage({ ...task, id }, transfer);
+    });
+
+  const handleAbort = () => {
+    worker.terminate();
+    for (const job of jobs.values()) job.reject(abortError());
+    jobs.clear();
+  };
+  signal.addEventListener('abort', handleAbort, { once: true });
+
+  let ticker: ReturnType<typeof setInterval> | undefined;
+  try {
+    report('decode', 0);
+    // Silence needs no AI: it is detected from the decoded audio track, locally.
+    // Files without a decodable audio track simply have no silences to trim.
+    const audio = config.removeSilence
+      ? await decodeAudio(file).catch(error => {
+          console.warn("Silence detection skipped", error);
+          return null;
+        })
+      : null;
+    if (signal.aborted) throw abortError();
+
+    let silences: Promise<void> = Promise.resolve();
+    if (audio) {
+      // Copies, because the decoded buffer stays cached for the review waveform
+      const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i).slice());
+      silences = runJob(
+        {
+          kind: 'silence',
+          channels,
+          sampleRate: audio.sampleRate,
+          options: { floorDb: config.silenceFloorDb, minDuration: config.silenceThreshold },
+          rules: config.categoryRules
+        },
+        channels.map(c => c.buffer)
+      )
+        .then(onCuts)
+        .catch(error => {
+          if (!signal.aborted) console.warn("Silence detection failed", error);
+        });
+    }
+
+    report('transcribe', 0);
+    const expected = config.transcription.provider ? duration * TRANSCRIBE_RATE[config.transcription.provider] : 0;
+    if (expected > 0) {
+      const transcribeStart = performance.now();
+      ticker = setInterval(() => {
+        const waited = (performance.now() - transcribeStart) / 1000;
+        report('transcribe', Math.min(MAX_ESTIMATED_PROGRESS, waited / expected));
+      }, 500);
+    }
+    const transcript = await transcriber.transcribe(file, signal);
+    clearInterval(ticker);
+    if (signal.aborted) throw abortError();
+
+    // False starts are a kind of repetition as far as the settings go
+    const disabledTypes: CutType[] = [
+      ...(config.removeCliches ? [] : ['cliche' as const]),
+      ...(config.removeFillers ? [] : ['filler' as const]),
+      ...(config.removeRepetition ? [] : ['repetition' as const, 'false-start' as const]),
+      ...(config.removeStuttering ? [] : ['stutter' as const])
+    ];
+
+    // The language model judges clichés, repetitions and false starts by meaning. Its cuts are
+    // merged with the rule lists', so an empty answer, no model (Gemini lacking an API key) or a
+    // failed request still leaves the rules' clichés and repetitions.
+    report('detect', 0);
+    const semanticCuts = config.removeCliches || config.removeRepetition
+      ? await detectSemanticCuts(transcript.words, config.llm, fraction => report('detect', fraction), signal).catch(error => {
+          if (signal.aborted) throw abortError();
+          console.warn("Semantic detection failed, falling back to rules", error);
+          return null;
+        })
+      : null;
+
+    const speechCuts = await runJob(
+      {
+        kind: 'transcript',
+        words: transcript.words,
+        customPhrases,
+        disabledTypes,
+        extraCuts: semanticCuts ?? [],
+        sharedTypes: [...SEMANTIC_CUT_TYPES],
+        rules: config.categoryRules
+      },
+      [],
+      stage => report(stage, 0)
+    );
+    await silences;
+    if (signal.aborted) throw abortError();
+    onCuts(speechCuts);
+    report('classify', 1);
+    return transcript;
+  } finally {
+    clearInterval(ticker);
+    signal.removeEventListener('abort', handleAbort);
+    worker.terminate();
+  }
+};
@@ -0,0 +1,66 @@
+import { CategoryRule, CutEvent, CutType, DetectedCutType, TranscriptWord } from "../types";
+import { computeEnvelope, detectSilences, PcmSource, SilenceOptions } from "./audioService";
+import { CustomPhrase, detectTranscriptCuts } from "./detectionService";
+import { applyCategoryRules } from "./reviewRulesService";
+
+/**
+ * Runs the CPU-heavy parts of analysis off the main thread. Web Audio is not
+ * available in workers, so audio arrives here already decoded.
+ */
+
+export type AnalysisTask = { rules: Record<DetectedCutType, CategoryRule> } & (
+  | { kind: 'silence'; channels: Float32Array[]; sampleRate: number; options: SilenceOptions }
+  | {
+      kind: 'transcript';
+      words: TranscriptWord[];
+      customPhrases: CustomPhrase[];
+      disabledTypes: CutType[];
+      extraCuts: CutEvent[]; // found elsewhere, e.g. by a language model, to classify along with the rest
+      sharedTypes: CutType[]; // types extraCuts also covers; rule cuts of these types yield where an extra cut overlaps them
+    }
+);
+
+export type AnalysisJob = AnalysisTask & { id: number };
+
+export type AnalysisWorkerMessage =
+  | { id: number; kind: 'stage'; stage: 'classify' }
+  | { id: number; kind: 'done'; cuts: CutEvent[] }
+  | { id: number; kind: 'error'; message: string };
+
+const post = (message: AnalysisWorkerMessage) => self.postMessage(message);
+
+const runJob = (job: AnalysisJob): CutEvent[] => {
+  if (job.kind === 'silence') {
+    const { channels, sampleRate } = job;
+    const source: PcmSource = {
+      sampleRate,
+      length: channels[0]?.length ?? 0,
+      numberOfChannels: channels.length,
+      getChannelData: (channel: number) => channels[channel]
+    };
+    // Silences are classified along with detection; they arrive while transcription is still running
+    return applyCategoryRules(detectSilences(computeEnvelope(source), job.options), job.rules);
+  }
+
+  // Every speech cut is grounded in transcript words
+  const overlaps = (a: CutEvent, b: CutEvent) => a.start < b.end && b.start < a.end;
+  const ruleCuts = detectTranscriptCuts(job.words, job.customPhrases).filter(c => !job.disabledTypes.includes(c.type));
+  // Custom phrases claim their words first, as they do over the built-in lists
+  const custom = ruleCuts.filter(c => c.type === 'custom');
+  const extraCuts = job.extraCuts.filter(c => !job.disabledTypes.includes(c.type) && !custom.some(k => overlaps(k, c)));
+  // Where both found something, the extra cut wins; elsewhere the rules still count
+  const keptRuleCuts = ruleCuts.filter(c => !job.sharedTypes.includes(c.type) || !extraCuts.some(e => overlaps(e, c)));
+  const detected = keptRuleCuts.concat(extraCuts).sort((a, b) => a.start - b.start);
+  post({ id: job.id, kind: 'stage', stage: 'classify' });
+  // Sensitivity limits drop weak detections; the auto-review bands set each cut's starting status
+  return applyCategoryRules(detected, job.rules);
+};
+
+self.addEventListener('message', (event: MessageEvent<AnalysisJob>) => {
+  const job = event.data;
+  try {
+    post({ id: job.id, kind: 'done', cuts: runJob(job) });
+  } catch (error) {
+    post({ id: job.id, kind: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,67 @@
+import { AudioJoinSettings, CutEvent } from "../types";
+import { RemovedRange, Segment } from "./cutListService";
+
+export const CROSSFADE_MS_RANGE = { min: 5, max: 50 };
+
+export const DEFAULT_AUDIO_JOINS: AudioJoinSettings = {
+  crossfadeMs: 10,
+  roomTone: false
+};
+
+// One join between two consecutive kept segments
+export interface AudioJoin {
+  crossfade: number; // seconds; shortened where the material either side is shorter
+  roomTone: boolean; // bridge through room tone instead of crossfading the two sides directly
+}
+
+export const crossfadeSeconds = (settings: AudioJoinSettings): number =>
+  Math.max(CROSSFADE_MS_RANGE.min, Math.min(CROSSFADE_MS_RANGE.max, settings.crossfadeMs)) / 1000;
+
+/**
+ * Describes each join of the edit: `joins[i]` sits between `segments[i]` and
+ * `segments[i + 1]`. A plain crossfade reaches half its length into the removed
+ * range on either side, so it is capped by the length of that range as well as
+ * by the segments. Room tone only bridges joins where nothing but silence was removed.
+ */
+export const planAudioJoins = (
+  segments: Segment[],
+  removed: RemovedRange[],
+  settings: AudioJoinSettings,
+  hasRoomTone: boolean
+): AudioJoin[] => {
+  const crossfade = crossfadeSeconds(settings);
+  const joins: AudioJoin[] = [];
+  let r = 0;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const left = segments[i];
+    const right = segments[i + 1];
+    // Skip ranges before this gap; a dropped sliver segment can leave several in one gap
+    while (r < removed.length && removed[r].end <= left.end) r++;
+    let gap = 0;
+    let silenceOnly = true;
+    for (let k = r; k < removed.length && removed[k].start < right.start; k++) {
+      gap += removed[k].end - removed[k].start;
+      silenceOnly = silenceOnly && removed[k].silenceOnly;
+    }
+    const roomTone = settings.roomTone && hasRoomTone && silenceOnly;
+    const limit = Math.min(left.end - left.start, right.end - right.start) / 2;
+    joins.push({
+      crossfade: Math.min(crossfade, limit, roomTone ? Infinity : gap),
+      roomTone
+    });
+  }
+  return joins;
+};
+
+/**
+ * Picks a stretch of room tone from the middle of the longest accepted silence,
+ * where it is least likely to catch the tail of a word. Returns null when no
+ * silence is long enough.
+ */
+export const pickRoomTone = (cuts: CutEvent[], length: number): Segment | null => {
+  const silences = cuts.filter(c => c.type === 'silence' && c.status === 'accepted' && c.end - c.start >= length);
+  if (silences.length === 0) return null;
+  const longest = silences.reduce((a, b) => (b.end - b.start > a.end - a.start ? b : a));
+  const middle = (longest.start + longest.end) / 2;
+  return { start: middle - length / 2, end: middle + length / 2 };
+};
@@ -0,0 +1,281 @@
+import { CutEvent } from "../types";
+import { getFFmpeg, mountFile } from "./ffmpegService";
+
+// Decoding resamples to this rate. Speech analysis needs nothing above 8kHz,
+// and a low rate keeps long recordings from exhausting memory.
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+// Decoded audio is expensive to produce, so it is kept per File for the session.
+const decodeCache = new WeakMap<File, Promise<AudioBuffer>>();
+
+let nextExtraction = 0;
+
+/**
+ * Pulls the audio track out of a media file as a mono 16-bit WAV at the
+ * analysis rate. The source is mounted, not read into memory, so only the
+ * audio (about 115MB an hour) is ever held, whatever the size of the video.
+ */
+const extractAudio = async (file: File): Promise<ArrayBuffer> => {
+  const ffmpeg = await getFFmpeg();
+  const input = await mountFile(ffmpeg, file, 'source');
+  const outputName = `audio${nextExtraction++}.wav`;
+  try {
+    const exitCode = await ffmpeg.exec([
+      '-hide_banner', '-i', input.path,
+      '-vn', '-ac', '1', '-ar', String(ANALYSIS_SAMPLE_RATE), '-c:a', 'pcm_s16le',
+      '-y', outputName
+    ]);
+    if (exitCode !== 0) throw new Error(`No decodable audio track in ${file.name}`);
+    const data = await ffmpeg.readFile(outputName);
+    if (typeof data === 'string') throw new Error("Unexpected text output from the audio extractor");
+    return data.buffer as ArrayBuffer;
+  } finally {
+    await input.unmount();
+    await ffmpeg.deleteFile(outputName).catch(() => undefined);
+  }
+};
+
+/**
+ * Decodes the audio track of a media file locally, extracting it with ffmpeg
+ * and decoding that with the Web Audio API. Results are cached per File instance.
+ */
+export const decodeAudio = (file: File): Promise<AudioBuffer> => {
+  const cached = decodeCache.get(file);
+  if (cached) return cached;
+
+  const pending = extractAudio(file).then(data => {
+    // An OfflineAudioContext decodes at its own sample rate without needing a user gesture.
+    const ctx = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    return ctx.decodeAudioData(data);
+  });
+  // Don't cache failures, so a retry can succeed.
+  pending.catch(() => decodeCache.delete(file));
+  decodeCache.set(file, pending);
+  return pending;
+};
+
+// The parts of an AudioBuffer analysis reads, so a worker can pass plain channel arrays
+export type PcmSource = Pick<AudioBuffer, 'sampleRate' | 'length' | 'numberOfChannels' | 'getChannelData'>;
+
+export interface Envelope {
+  db: Float32Array; // RMS level per window, in dBFS
+  windowSize: number; // seconds per entry
+}
+
+/**
+ * Computes an RMS loudness envelope (in dBFS) over fixed windows,
+ * mixing all channels down to mono.
+ */
+export const computeEnvelope = (buffer: PcmSource, windowSize = 0.02): Envelope => {
+  const samplesPerWindow = Math.max(1, Math.round(buffer.sampleRate * windowSize));
+  const windows = Math.ceil(buffer.length / samplesPerWindow);
+  const db = new Float32Array(windows);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  for (let w = 0; w < windows; w++) {
+    const from = w * samplesPerWindow;
+    const to = Math.min(buffer.length, from + samplesPerWindow);
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length;
+      sum += sample * sample;
+    }
+    const rms = Math.sqrt(sum / Math.max(1, to - from));
+    // Clamp to a -120dB floor so digital silence doesn't become -Infinity.
+    db[w] = rms > 0 ? Math.max(-120, 20 * Math.log10(rms)) : -120;
+  }
+
+  return { db, windowSize };
+};
+
+export interface SilenceOptions {
+  floorDb: number; // level below which audio counts as silence
+  minDuration: number; // seconds the level must stay below the floor
+}
+
+/**
+ * Finds every run of the envelope that stays below `floorDb` for at least
+ * `minDuration` seconds. Deterministic for a given envelope and options.
+ */
+export const detectSilences = (envelope: Envelope, options: SilenceOptions): CutEvent[] => {
+  const { db, windowSize } = envelope;
+  const cuts: CutEvent[] = [];
+  let runStart = -1;
+
+  const closeRun = (endIndex: number) => {
+    const start = runStart * windowSize;
+    const end = endIndex * windowSize;
+    if (end - start >= options.minDuration) {
+      // Confidence grows with how far below the floor the quietest part of the run sits.
+      let min = 0;
+      for (let i = runStart; i < endIndex; i++) min = Math.min(min, db[i]);
+      const depth = Math.min(1, (options.floorDb - min) / 30);
+      cuts.push({
+        id: `silence-${cuts.length}`,
+        type: 'silence',
+        word: '(Silence)',
+        start: parseFloat(start.toFixed(2)),
+        end: parseFloat(end.toFixed(2)),
+        confidence: 0.8 + depth * 0.19,
+        status: 'accepted'
+      });
+    }
+    runStart = -1;
+  };
+
+  for (let i = 0; i < db.length; i++) {
+    if (db[i] < options.floorDb) {
+      if (runStart === -1) runStart = i;
+    } else if (runStart !== -1) {
+      closeRun(i);
+    }
+  }
+  if (runStart !== -1) closeRun(db.length);
+
+  return cuts;
+};
+
+/**
+ * Decodes the file's audio and returns `silence` cuts. Runs fully offline.
+ */
+export const analyzeSilence = async (file: File, options: SilenceOptions): Promise<CutEvent[]> => {
+  const buffer = await decodeAudio(file);
+  return detectSilences(computeEnvelope(buffer), options);
+};
+
+/**
+ * Moves `time` to the nearest point within `radius` seconds where the waveform
+ * crosses zero, so an edit placed there does not click. Returns `time` unchanged
+ * when there is no crossing in range.
+ */
+export const findZeroCrossing = (buffer: AudioBuffer, time: number, radius = 0.005): number => {
+  const data = buffer.getChannelData(0);
+  const center = Math.round(time * buffer.sampleRate);
+  const span = Math.round(radius * buffer.sampleRate);
+  for (let offset = 0; offset <= span; offset++) {
+    for (const i of [center - offset, center + offset]) {
+      if (i > 0 && i < data.length && (data[i - 1] < 0) !== (data[i] < 0)) return i / buffer.sampleRate;
+    }
+  }
+  return time;
+};
+
+export interface WaveformData {
+  peaks: Float32Array; // 0-1 per bucket, normalised to the loudest sample in the file
+  rms: Float32Array; // 0-1 per bucket, same scale as peaks
+}
+
+const peakLevelCache = new WeakMap<AudioBuffer, number>();
+const waveformCache = new WeakMap<AudioBuffer, Map<string, WaveformData>>();
+// Zooming produces a new bucket layout per level; keep only the most recent ones.
+const MAX_CACHED_WAVEFORMS = 24;
+
+const getPeakLevel = (buffer: AudioBuffer): number => {
+  const cached = peakLevelCache.get(buffer);
+  if (cached !== undefined) return cached;
+  let max = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const v = Math.abs(data[i]);
+      if (v > max) max = v;
+    }
+  }
+  peakLevelCache.set(buffer, max);
+  return max;
+};
+
+/**
+ * Buckets the decoded audio between `start` and `end` (seconds) into
+ * `buckets` peak/RMS pairs for drawing. Results are cached per buffer and layout.
+ */
+export const computeWaveform = (
+  buffer: AudioBuffer,
+  buckets: number,
+  start = 0,
+  end = buffer.duration
+): WaveformData => {
+  const key = `${buckets}:${start.toFixed(3)}:${end.toFixed(3)}`;
+  let cache = waveformCache.get(buffer);
+  if (!cache) {
+    cache = new Map();
+    waveformCache.set(buffer, cache);
+  }
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const peaks = new Float32Array(buckets);
+  const rms = new Float32Array(buckets);
+  const scale = getPeakLevel(buffer) || 1;
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const firstSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const lastSample = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const samplesPerBucket = (lastSample - firstSample) / buckets;
+
+  for (let b = 0; b < buckets; b++) {
+    const from = firstSample + Math.floor(b * samplesPerBucket);
+    const to = Math.min(lastSample, firstSample + Math.floor((b + 1) * samplesPerBucket));
+    let peak = 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      let sample = 0;
+      for (const data of channels) sample += data[i];
+      sample /= channels.length;
+      const abs = Math.abs(sample);
+      if (abs > peak) peak = abs;
+      sum += sample * sample;
+    }
+    peaks[b] = peak / scale;
+    rms[b] = to > from ? Math.sqrt(sum / (to - from)) / scale : 0;
+  }
+
+  const result = { peaks, rms };
+  cache.set(key, result);
+  if (cache.size > MAX_CACHED_WAVEFORMS) {
+    // Maps iterate in insertion order, so the first key is the oldest.
+    cache.delete(cache.keys().next().value!);
+  }
+  return result;
+};
+
+/**
+ * Encodes a decoded buffer, or the part of it between `start` and `end`
+ * seconds, as a mono 16-bit PCM WAV file, the lowest common denominator
+ * accepted by every speech-to-text backend.
+ */
+export const encodeWav = (buffer: PcmSource, start = 0, end = buffer.length / buffer.sampleRate): Blob => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const from = Math.max(0, Math.round(start * buffer.sampleRate));
+  const length = Math.max(0, Math.min(buffer.length, Math.round(end * buffer.sampleRate)) - from);
+  const dataSize = length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < length; i++) {
+    let sample = 0;
+    for (const data of channels) sample += data[from + i];
+    sample = Math.max(-1, Math.min(1, sample / channels.length));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
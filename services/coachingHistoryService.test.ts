@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { CoachingSession, CutEvent, CutType, EditingReport } from "../types";
+import { buildCoachingSession, summarizeByWeek, totalFillerWords, UNNAMED_SPEAKER } from "./coachingHistoryService";
+
+const cut = (type: CutType, start: number, end: number, extra: Partial<CutEvent> = {}): CutEvent =>
+  ({ id: `${type}-${start}`, type, start, end, confidence: 0.9, status: 'accepted', ...extra });
+
+const report: EditingReport = {
+  createdAt: new Date(2026, 2, 4, 15).getTime(),
+  originalDuration: 600,
+  finalDuration: 590,
+  timeSaved: 10,
+  byType: [],
+  topPhrases: [],
+  wordsPerMinute: { before: 140, after: 150 },
+  fillerRate: [],
+  longestPauses: [],
+  narrative: ''
+};
+const metrics = { originalDuration: 600, finalDuration: 590, cutsCount: 1, timeSaved: 10 };
+
+const session = (recordedAt: Date, minutes: number, overrides: Partial<CoachingSession> = {}): CoachingSession => ({
+  id: String(recordedAt.getTime()),
+  speaker: 'Pat',
+  title: 'talk.mp4',
+  recordedAt: recordedAt.getTime(),
+  metrics: { ...metrics, originalDuration: minutes * 60 },
+  counts: {},
+  fillerWords: {},
+  pauses: { count: 0, seconds: 0, longest: 0 },
+  wordsPerMinute: null,
+  ...overrides
+});
+
+describe("buildCoachingSession", () => {
+  it("counts every detected cut, whatever the reviewer decided", () => {
+    const cuts = [
+      cut('filler', 1, 1.3, { word: 'Um,' }),
+      cut('filler', 5, 5.3, { word: 'um', status: 'rejected' }),
+      cut('filler', 9, 9.3, { word: 'like', status: 'pending' }),
+      cut('cliche', 12, 14),
+      cut('silence', 20, 23, { status: 'rejected' }),
+      cut('silence', 30, 31)
+    ];
+    const result = buildCoachingSession('p1', '  Pat ', 'talk.mp4', cuts, report, metrics);
+    expect(result.speaker).toBe('Pat');
+    expect(result.recordedAt).toBe(report.createdAt);
+    expect(result.counts).toEqual({ filler: 3, cliche: 1, silence: 2 });
+    expect(result.fillerWords).toEqual({ um: 2, like: 1 });
+    expect(result.pauses).toEqual({ count: 2, seconds: 4, longest: 3 });
+    expect(result.wordsPerMinute).toBe(140);
+  });
+
+  it("files sessions without a speaker under a placeholder name", () => {
+    const result = buildCoachingSession('p1', ' ', 'talk.mp4', [], { ...report, wordsPerMinute: null }, metrics);
+    expect(result.speaker).toBe(UNNAMED_SPEAKER);
+    expect(result.pauses).toEqual({ count: 0, seconds: 0, longest: 0 });
+    expect(result.wordsPerMinute).toBeNull();
+  });
+});
+
+describe("summarizeByWeek", () => {
+  it("returns nothing without sessions", () => {
+    expect(summarizeByWeek([])).toEqual([]);
+  });
+
+  it("groups sessions into weeks starting on Monday", () => {
+    // Wednesday 4 March 2026 and Sunday 8 March share a week; Monday 9 March starts the next
+    const weeks = summarizeByWeek([
+      session(new Date(2026, 2, 4, 10), 10),
+      session(new Date(2026, 2, 8, 23), 5),
+      session(new Date(2026, 2, 9, 0, 30), 20)
+    ]);
+    expect(weeks.map(w => w.weekStart)).toEqual([new Date(2026, 2, 2).getTime(), new Date(2026, 2, 9).getTime()]);
+    expect(weeks.map(w => w.sessions)).toEqual([2, 1]);
+    expect(weeks.map(w => w.minutes)).toEqual([15, 20]);
+  });
+
+  it("fills empty weeks in between, including across a daylight saving change", () => {
+    const weeks = summarizeByWeek([session(new Date(2026, 2, 18), 10), session(new Date(2026, 3, 8), 10)]);
+    expect(weeks.map(w => new Date(w.weekStart).getDate())).toEqual([16, 23, 30, 6]);
+    expect(weeks.map(w => w.sessions)).toEqual([1, 0, 0, 1]);
+    expect(weeks[1]).toMatchObject({ minutes: 0, fillersPerMinute: 0, pausesPerMinute: 0, averagePause: 0 });
+  });
+
+  it("turns counts into rates per minute of recording", () => {
+    const [week] = summarizeByWeek([
+      session(new Date(2026, 2, 3), 10, { counts: { filler: 12, cliche: 2 }, pauses: { count: 4, seconds: 10, longest: 4 } }),
+      session(new Date(2026, 2, 5), 30, { counts: { filler: 8 }, pauses: { count: 6, seconds: 5, longest: 2 } })
+    ]);
+    expect(week.fillersPerMinute).toBe(0.5);
+    expect(week.clichesPerMinute).toBe(0.05);
+    expect(week.pausesPerMinute).toBe(0.25);
+    // Averaged over every pause that week, not over the per-session averages
+    expect(week.averagePause).toBe(1.5);
+  });
+});
+
+describe("totalFillerWords", () => {
+  it("adds up the words across sessions, most frequent first", () => {
+    const sessions = [
+      session(new Date(2026, 2, 3), 10, { fillerWords: { um: 3, like: 1 } }),
+      session(new Date(2026, 2, 5), 10, { fillerWords: { like: 2, so: 3 } })
+    ];
+    expect(totalFillerWords(sessions)).toEqual([
+      { word: 'like', count: 3 },
+      { word: 'so', count: 3 },
+      { word: 'um', count: 3 }
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { CoachingSession, CutEvent, CutType, EditingReport, ProcessingMetrics } from "../types";
+import { deleteOne, getAll, putOne } from "./db";
+import { normalizePhrase } from "./reportService";
+
+export const UNNAMED_SPEAKER = 'Unnamed speaker';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Condenses a finished edit into a history entry. Every detected habit counts,
+ * whatever the reviewer decided to keep in the video: rejecting a filler for
+ * editing reasons does not mean the speaker did not say it. Cuts the reviewer
+ * added by hand count too.
+ */
+export const buildCoachingSession = (
+  id: string,
+  speaker: string,
+  title: string,
+  cuts: CutEvent[],
+  report: EditingReport,
+  metrics: ProcessingMetrics
+): CoachingSession => {
+  const counts: Partial<Record<CutType, number>> = {};
+  const fillerWords: Record<string, number> = {};
+  for (const cut of cuts) {
+    counts[cut.type] = (counts[cut.type] ?? 0) + 1;
+    if (cut.type !== 'filler') continue;
+    const word = normalizePhrase(cut.word ?? '');
+    if (word) fillerWords[word] = (fillerWords[word] ?? 0) + 1;
+  }
+  const pauses = cuts.filter(c => c.type === 'silence').map(c => c.end - c.start);
+
+  return {
+    id,
+    speaker: speaker.trim() || UNNAMED_SPEAKER,
+    title,
+    recordedAt: report.createdAt,
+    metrics,
+    counts,
+    fillerWords,
+    pauses: {
+      count: pauses.length,
+      seconds: pauses.reduce((sum, p) => sum + p, 0),
+      longest: Math.max(0, ...pauses)
+    },
+    wordsPerMinute: report.wordsPerMinute?.before ?? null
+  };
+};
+
+export const listCoachingSessions = async (): Promise<CoachingSession[]> => {
+  const sessions = await getAll<CoachingSession>('coachingSessions');
+  return sessions.sort((a, b) => a.recordedAt - b.recordedAt);
+};
+
+export const saveCoachingSession = (session: CoachingSession): Promise<void> => putOne('coachingSessions', session);
+
+export const deleteCoachingSession = (id: string): Promise<void> => deleteOne('coachingSessions', id);
+
+export const listSpeakers = (sessions: CoachingSession[]): string[] =>
+  [...new Set(sessions.map(s => s.speaker))].sort((a, b) => a.localeCompare(b));
+
+// A speaker's habits for one calendar week, as rates so long and short videos compare fairly
+export interface WeeklyCoachingSummary {
+  weekStart: number; // epoch ms, Monday 00:00 local time
+  sessions: number;
+  minutes: number; // of source recording
+  fillersPerMinute: number;
+  clichesPerMinute: number;
+  pausesPerMinute: number;
+  averagePause: number; // seconds; 0 when no pauses were detected
+}
+
+const startOfWeek = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+/**
+ * Groups sessions by the week they were recorded, oldest first. Weeks without
+ * sessions in between are included empty, so charts keep a true time axis.
+ */
+export const summarizeByWeek = (sessions: CoachingSession[]): WeeklyCoachingSummary[] => {
+  if (sessions.length === 0) return [];
+  const byWeek = new Map<number, CoachingSession[]>();
+  for (const session of sessions) {
+    const week = startOfWeek(session.recordedAt);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), session]);
+  }
+
+  const weeks = [...byWeek.keys()].sort((a, b) => a - b);
+  const summaries: WeeklyCoachingSummary[] = [];
+  // Step by calendar date rather than a fixed length, which daylight saving would skew
+  for (let week = weeks[0]; week <= weeks[weeks.length - 1]; week = startOfWeek(week + WEEK_MS + 12 * 60 * 60 * 1000)) {
+    const group = byWeek.get(week) ?? [];
+    const minutes = group.reduce((sum, s) => sum + s.metrics.originalDuration / 60, 0);
+    const pauses = group.reduce((sum, s) => sum + s.pauses.count, 0);
+    const rate = (count: number) => (minutes > 0 ? count / minutes : 0);
+    summaries.push({
+      weekStart: week,
+      sessions: group.length,
+      minutes,
+      fillersPerMinute: rate(group.reduce((sum, s) => sum + (s.counts.filler ?? 0), 0)),
+      clichesPerMinute: rate(group.reduce((sum, s) => sum + (s.counts.cliche ?? 0), 0)),
+      pausesPerMinute: rate(pauses),
+      averagePause: pauses > 0 ? group.reduce((sum, s) => sum + s.pauses.seconds, 0) / pauses : 0
+    });
+  }
+  return summaries;
+};
+
+/** Filler words across sessions, most frequent first. */
+export const totalFillerWords = (sessions: CoachingSession[]): { word: string; count: number }[] => {
+  const totals = new Map<string, number>();
+  for (const session of sessions) {
+    for (const [word, count] of Object.entries(session.fillerWords)) {
+      totals.set(word, (totals.get(word) ?? 0) + count);
+    }
+  }
+  return [...totals.entries()]
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+};
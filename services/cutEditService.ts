@@ -0,0 +1,96 @@
+import { CutEvent, TranscriptWord } from "../types";
+
+// Shortest cut an edit may leave behind, in seconds
+export const MIN_CUT_LENGTH = 0.02;
+
+/**
+ * Sorted, de-duplicated start and end times of every transcript word:
+ * the natural places for a cut to begin or end.
+ */
+export const getWordEdges = (words: TranscriptWord[]): number[] =>
+  Array.from(new Set(words.flatMap(w => [w.start, w.end]))).sort((a, b) => a - b);
+
+/**
+ * Returns the edge closest to `time` if it lies within `tolerance` seconds,
+ * otherwise null. `edges` must be sorted.
+ */
+export const snapToEdge = (time: number, edges: number[], tolerance: number): number | null => {
+  let lo = 0;
+  let hi = edges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (edges[mid] < time) lo = mid + 1;
+    else hi = mid;
+  }
+  let best: number | null = null;
+  for (const i of [lo - 1, lo]) {
+    if (i < 0 || i >= edges.length) continue;
+    const distance = Math.abs(edges[i] - time);
+    if (distance <= tolerance && (best === null || distance < Math.abs(best - time))) best = edges[i];
+  }
+  return best;
+};
+
+// Text of the words whose midpoint falls inside the range
+const wordsInRange = (words: TranscriptWord[], start: number, end: number): string =>
+  words
+    .filter(w => {
+      const mid = (w.start + w.end) / 2;
+      return mid >= start && mid < end;
+    })
+    .map(w => w.text)
+    .join(' ');
+
+/**
+ * Moves one edge of a cut, keeping it at least MIN_CUT_LENGTH long and inside the video.
+ */
+export const trimCut = (cut: CutEvent, edge: 'start' | 'end', time: number, duration: number): CutEvent =>
+  edge === 'start'
+    ? { ...cut, start: Math.max(0, Math.min(time, cut.end - MIN_CUT_LENGTH)) }
+    : { ...cut, end: Math.min(duration, Math.max(time, cut.start + MIN_CUT_LENGTH)) };
+
+export const createManualCut = (start: number, end: number, words: TranscriptWord[]): CutEvent => ({
+  id: `manual-${Date.now()}`,
+  type: 'manual',
+  word: wordsInRange(words, start, end) || '(Range)',
+  start,
+  end,
+  confidence: 1,
+  status: 'accepted'
+});
+
+/**
+ * Splits a cut in two at `time`. Returns null when either half would be too short.
+ */
+export const splitCut = (cut: CutEvent, time: number, words: TranscriptWord[]): [CutEvent, CutEvent] | null => {
+  if (time - cut.start < MIN_CUT_LENGTH || cut.end - time < MIN_CUT_LENGTH) return null;
+  const label = (start: number, end: number) => cut.type === 'silence' ? cut.word : wordsInRange(words, start, end) || cut.word;
+  return [
+    { ...cut, id: `${cut.id}/1`, end: time, word: label(cut.start, time) },
+    { ...cut, id: `${cut.id}/2`, start: time, word: label(time, cut.end) }
+  ];
+};
+
+/**
+ * Joins cuts into one spanning all of them. Cuts of different types become a
+ * manual cut; the result is accepted if any part was, else pending if any part was.
+ */
+export const mergeCuts = (cuts: CutEvent[], words: TranscriptWord[]): CutEvent => {
+  const sorted = [...cuts].sort((a, b) => a.start - b.start);
+  const start = sorted[0].start;
+  const end = Math.max(...sorted.map(c => c.end));
+  const sameType = sorted.every(c => c.type === sorted[0].type);
+  return {
+    id: `merge-${Date.now()}`,
+    type: sameType ? sorted[0].type : 'manual',
+    word: sameType && sorted[0].type === 'silence' ? sorted[0].word : wordsInRange(words, start, end) || sorted.map(c => c.word).join(' '),
+    start,
+    end,
+    confidence: Math.min(...sorted.map(c => c.confidence)),
+    status: sorted.some(c => c.status === 'accepted') ? 'accepted'
+      : sorted.some(c => c.status === 'pending') ? 'pending' : 'rejected',
+    phrase: sameType ? sorted[0].phrase : undefined,
+    phraseList: sameType ? sorted[0].phraseList : undefined,
+    silenceMode: sameType ? sorted[0].silenceMode : undefined
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { CutEvent } from "../types";
+import { createCutMatcher, CutFilter, describeFilter, EMPTY_FILTER, isFilterActive } from "./cutFilterService";
+
+const cut = (overrides: Partial<CutEvent>): CutEvent =>
+  ({ id: 'c', type: 'filler', start: 0, end: 1, confidence: 0.9, status: 'accepted', ...overrides });
+
+const filter = (overrides: Partial<CutFilter>): CutFilter => ({ ...EMPTY_FILTER, ...overrides });
+
+describe("createCutMatcher", () => {
+  it("matches everything with the empty filter", () => {
+    const matches = createCutMatcher(EMPTY_FILTER);
+    expect(matches(cut({ type: 'silence', confidence: 0, status: 'rejected' }))).toBe(true);
+    expect(matches(cut({ confidence: 1 }))).toBe(true);
+  });
+
+  it("matches the word on word boundaries, ignoring case and punctuation", () => {
+    const matches = createCutMatcher(filter({ word: ' um ' }));
+    expect(matches(cut({ word: 'Um,' }))).toBe(true);
+    expect(matches(cut({ word: 'umbrella' }))).toBe(false);
+    expect(matches(cut({ word: "um's" }))).toBe(false);
+    expect(matches(cut({ word: undefined, phrase: 'well um yes' }))).toBe(true);
+  });
+
+  it("treats the word literally rather than as a pattern", () => {
+    expect(createCutMatcher(filter({ word: 'a.c' }))(cut({ word: 'abc' }))).toBe(false);
+  });
+
+  it("keeps the lower confidence bound inclusive and the upper one exclusive", () => {
+    const matches = createCutMatcher(filter({ minConfidence: 0.5, maxConfidence: 0.85 }));
+    expect(matches(cut({ confidence: 0.5 }))).toBe(true);
+    expect(matches(cut({ confidence: 0.85 }))).toBe(false);
+    expect(matches(cut({ confidence: 0.49 }))).toBe(false);
+  });
+
+  it("includes full confidence when there is no upper bound", () => {
+    expect(createCutMatcher(filter({ minConfidence: 0.5 }))(cut({ confidence: 1 }))).toBe(true);
+  });
+
+  it("filters by type and status", () => {
+    const matches = createCutMatcher(filter({ types: ['cliche', 'stutter'], status: 'pending' }));
+    expect(matches(cut({ type: 'cliche', status: 'pending' }))).toBe(true);
+    expect(matches(cut({ type: 'cliche', status: 'accepted' }))).toBe(false);
+    expect(matches(cut({ type: 'filler', status: 'pending' }))).toBe(false);
+  });
+});
+
+describe("isFilterActive", () => {
+  it("is false only for a filter that matches everything", () => {
+    expect(isFilterActive(EMPTY_FILTER)).toBe(false);
+    expect(isFilterActive(filter({ word: '  ' }))).toBe(false);
+    expect(isFilterActive(filter({ maxConfidence: 0.9 }))).toBe(true);
+    expect(isFilterActive(filter({ status: 'rejected' }))).toBe(true);
+  });
+});
+
+describe("describeFilter", () => {
+  it("names the types, word, confidence range and status", () => {
+    expect(describeFilter(EMPTY_FILTER)).toBe('cuts');
+    expect(describeFilter(filter({ types: ['filler'], word: 'um', maxConfidence: 0.85 }))).toBe('filler "um" below 85%');
+    expect(describeFilter(filter({ types: ['filler', 'cliche'], minConfidence: 0.5, maxConfidence: 0.8, status: 'pending' })))
+      .toBe('filler/cliche at 50–80% (pending)');
+    expect(describeFilter(filter({ minConfidence: 0.7 }))).toBe('cuts from 70%');
+  });
+});
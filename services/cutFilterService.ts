@@ -0,0 +1,62 @@
+import { CutEvent, CutType } from "../types";
+
+/**
+ * Narrows the cut list for review. Empty fields match everything, so the
+ * default filter shows every cut.
+ */
+export interface CutFilter {
+  types: CutType[];
+  word: string; // whole-word, case-insensitive match on the cut's text
+  minConfidence: number;
+  maxConfidence: number;
+  status: CutEvent['status'] | 'all';
+}
+
+export const EMPTY_FILTER: CutFilter = {
+  types: [],
+  word: '',
+  minConfidence: 0,
+  maxConfidence: 1,
+  status: 'all'
+};
+
+export const isFilterActive = (filter: CutFilter): boolean =>
+  filter.types.length > 0 ||
+  filter.word.trim() !== '' ||
+  filter.minConfidence > 0 ||
+  filter.maxConfidence < 1 ||
+  filter.status !== 'all';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a predicate for the filter. The word is matched on word boundaries,
+ * so "um" finds "Um," but not "umbrella".
+ */
+export const createCutMatcher = (filter: CutFilter): ((cut: CutEvent) => boolean) => {
+  const word = filter.word.trim();
+  const pattern = word ? new RegExp(`(^|[^\\p{L}\\p{N}'])${escapeRegExp(word)}($|[^\\p{L}\\p{N}'])`, 'iu') : null;
+  return cut =>
+    (filter.types.length === 0 || filter.types.includes(cut.type)) &&
+    (filter.status === 'all' || cut.status === filter.status) &&
+    cut.confidence >= filter.minConfidence &&
+    // The upper bound is exclusive so "below 0.85" leaves 0.85 itself out
+    (filter.maxConfidence >= 1 ? cut.confidence <= 1 : cut.confidence < filter.maxConfidence) &&
+    (!pattern || pattern.test(cut.word ?? '') || pattern.test(cut.phrase ?? ''));
+};
+
+/** Short description of the filter for history entries, e.g. `filler "um" below 85%`. */
+export const describeFilter = (filter: CutFilter): string => {
+  const parts: string[] = [];
+  parts.push(filter.types.length ? filter.types.join('/') : 'cuts');
+  if (filter.word.trim()) parts.push(`"${filter.word.trim()}"`);
+  if (filter.minConfidence > 0 && filter.maxConfidence < 1) {
+    parts.push(`at ${Math.round(filter.minConfidence * 100)}–${Math.round(filter.maxConfidence * 100)}%`);
+  } else if (filter.maxConfidence < 1) {
+    parts.push(`below ${Math.round(filter.maxConfidence * 100)}%`);
+  } else if (filter.minConfidence > 0) {
+    parts.push(`from ${Math.round(filter.minConfidence * 100)}%`);
+  }
+  if (filter.status !== 'all') parts.push(`(${filter.status})`);
+  return parts.join(' ');
+};
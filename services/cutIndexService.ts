@@ -0,0 +1,92 @@
+import { CutEvent } from "../types";
+
+/**
+ * Read-only lookups over a cut list for code that runs every frame. Cuts are
+ * sorted by start and laid out as an implicit interval tree, so containment
+ * and overlap queries take O(log n) however long any single cut is.
+ */
+export interface CutIndex {
+  cuts: CutEvent[]; // sorted by start
+  byId: (id: string | null) => CutEvent | undefined;
+  /** The latest-starting cut containing `time`. */
+  at: (time: number) => CutEvent | undefined;
+  /** The first cut starting after `time`. */
+  next: (time: number) => CutEvent | undefined;
+  /** The last cut starting before `time`. */
+  prev: (time: number) => CutEvent | undefined;
+  /** The first cut other than `cut` starting at or after it. */
+  following: (cut: CutEvent) => CutEvent | undefined;
+  /** Cuts overlapping [start, end], in start order. */
+  overlapping: (start: number, end: number) => CutEvent[];
+}
+
+export const createCutIndex = (cuts: CutEvent[]): CutIndex => {
+  const sorted = [...cuts].sort((a, b) => a.start - b.start);
+  const ids = new Map(sorted.map(c => [c.id, c]));
+
+  // Implicit balanced tree: the node for sorted[lo..hi) is its middle cut, and
+  // subtreeEnd[mid] is the furthest any cut in that range reaches
+  const subtreeEnd = new Float64Array(sorted.length);
+  const build = (lo: number, hi: number): number => {
+    if (lo >= hi) return -Infinity;
+    const mid = (lo + hi) >> 1;
+    subtreeEnd[mid] = Math.max(sorted[mid].end, build(lo, mid), build(mid + 1, hi));
+    return subtreeEnd[mid];
+  };
+  build(0, sorted.length);
+
+  // Number of cuts starting at or before `time` (or strictly before, if `strict`)
+  const countStartingBy = (time: number, strict = false) => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (strict ? sorted[mid].start < time : sorted[mid].start <= time) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  // Right subtrees first, so the first hit is the latest-starting cut
+  const latestContaining = (lo: number, hi: number, time: number): CutEvent | undefined => {
+    if (lo >= hi) return undefined;
+    const mid = (lo + hi) >> 1;
+    if (subtreeEnd[mid] <= time) return undefined;
+    if (sorted[mid].start <= time) {
+      const later = latestContaining(mid + 1, hi, time);
+      if (later) return later;
+      if (sorted[mid].end > time) return sorted[mid];
+    }
+    return latestContaining(lo, mid, time);
+  };
+
+  // In-order walk, skipping subtrees that end too early or start too late
+  const collectOverlapping = (lo: number, hi: number, start: number, end: number, result: CutEvent[]) => {
+    if (lo >= hi) return;
+    const mid = (lo + hi) >> 1;
+    if (subtreeEnd[mid] <= start) return;
+    collectOverlapping(lo, mid, start, end, result);
+    if (sorted[mid].start > end) return;
+    if (sorted[mid].end > start) result.push(sorted[mid]);
+    collectOverlapping(mid + 1, hi, start, end, result);
+  };
+
+  return {
+    cuts: sorted,
+    byId: id => (id === null ? undefined : ids.get(id)),
+    at: time => latestContaining(0, sorted.length, time),
+    next: time => sorted[countStartingBy(time)],
+    prev: time => sorted[countStartingBy(time, true) - 1],
+    following: cut => {
+      for (let i = countStartingBy(cut.start, true); i < sorted.length; i++) {
+        if (sorted[i].id !== cut.id) return sorted[i];
+      }
+      return undefined;
+    },
+    overlapping: (start, end) => {
+      const result: CutEvent[] = [];
+      collectOverlapping(0, sorted.length, start, end, result);
+      return result;
+    }
+  };
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { CutEvent, CutNormalization, CutType } from "../types";
+import { computeKeptSegments, DEFAULT_NORMALIZATION, findRemovedRange, mapToEditedTime, normalizeCuts, totalRemoved } from "./cutListService";
+
+const cut = (id: string, start: number, end: number, type: CutType = 'filler', status: CutEvent['status'] = 'accepted'): CutEvent =>
+  ({ id, type, start, end, confidence: 0.9, status });
+
+const options = (overrides: Partial<CutNormalization> = {}): CutNormalization =>
+  ({ ...DEFAULT_NORMALIZATION, mergeGap: 0, minKeptSegment: 0, ...overrides });
+
+describe("normalizeCuts", () => {
+  it("ignores cuts that are not accepted", () => {
+    const ranges = normalizeCuts([cut('a', 1, 2, 'filler', 'rejected'), cut('b', 3, 4, 'filler', 'pending')], 10, options());
+    expect(ranges).toEqual([]);
+  });
+
+  it("merges overlapping cuts and keeps their ids", () => {
+    const ranges = normalizeCuts([cut('b', 1.5, 3), cut('a', 1, 2), cut('c', 5, 6)], 10, options());
+    expect(ranges).toEqual([
+      { start: 1, end: 3, cutIds: ['a', 'b'], silenceOnly: false },
+      { start: 5, end: 6, cutIds: ['c'], silenceOnly: false }
+    ]);
+  });
+
+  it("joins cuts closer than the merge gap", () => {
+    const ranges = normalizeCuts([cut('a', 1, 2), cut('b', 2.04, 3)], 10, options({ mergeGap: 0.05 }));
+    expect(ranges).toHaveLength(1);
+    expect(ranges[0]).toMatchObject({ start: 1, end: 3 });
+  });
+
+  it("removes kept stretches shorter than the minimum, including at the ends", () => {
+    const ranges = normalizeCuts([cut('a', 0.05, 2), cut('b', 2.08, 3), cut('c', 9, 9.95)], 10, options({ minKeptSegment: 0.1 }));
+    expect(ranges.map(r => [r.start, r.end])).toEqual([[0, 3], [9, 10]]);
+  });
+
+  it("shrinks cuts by the padding and clamps them to the media", () => {
+    const ranges = normalizeCuts([cut('a', 1, 2), cut('b', 9.5, 12)], 10, options({ padBefore: 0.1, padAfter: 0.2 }));
+    expect(ranges.map(r => [r.start, +r.end.toFixed(6)])).toEqual([[1.1, 1.8], [9.6, 10]]);
+  });
+
+  it("drops cuts the padding swallows", () => {
+    expect(normalizeCuts([cut('a', 1, 1.2)], 10, options({ padBefore: 0.1, padAfter: 0.1 }))).toEqual([]);
+  });
+
+  it("removes only the middle of a shortened silence", () => {
+    const silence = { mode: 'shorten' as const, keepSeconds: 0.4, keepRatio: 0.5 };
+    // 2 s pause keeps 0.4 + 0.5 * 1.6 = 1.2 s, 0.6 s on each side
+    const ranges = normalizeCuts([cut('a', 4, 6, 'silence')], 10, options({ silence }));
+    expect(ranges.map(r => [+r.start.toFixed(6), +r.end.toFixed(6)])).toEqual([[4.6, 5.4]]);
+    expect(ranges[0].silenceOnly).toBe(true);
+  });
+
+  it("lets a silence override the project-wide mode", () => {
+    const silence = { mode: 'shorten' as const, keepSeconds: 0.4, keepRatio: 0 };
+    const ranges = normalizeCuts([{ ...cut('a', 4, 6, 'silence'), silenceMode: 'remove' }], 10, options({ silence }));
+    expect(ranges.map(r => [r.start, r.end])).toEqual([[4, 6]]);
+  });
+
+  it("marks ranges mixing silence and speech as not silence-only", () => {
+    const ranges = normalizeCuts([cut('a', 1, 2, 'silence'), cut('b', 1.5, 2.5)], 10, options());
+    expect(ranges[0].silenceOnly).toBe(false);
+  });
+});
+
+describe("computeKeptSegments", () => {
+  it("returns everything outside the removed ranges", () => {
+    expect(computeKeptSegments([cut('a', 2, 3), cut('b', 5, 6)], 10, options())).toEqual([
+      { start: 0, end: 2 },
+      { start: 3, end: 5 },
+      { start: 6, end: 10 }
+    ]);
+  });
+
+  it("returns the whole media without accepted cuts", () => {
+    expect(computeKeptSegments([], 10, options())).toEqual([{ start: 0, end: 10 }]);
+  });
+});
+
+describe("totalRemoved", () => {
+  it("counts overlapping cuts once", () => {
+    expect(totalRemoved(normalizeCuts([cut('a', 1, 3), cut('b', 2, 4)], 10, options()))).toBe(3);
+  });
+});
+
+describe("findRemovedRange", () => {
+  const ranges = normalizeCuts([cut('a', 1, 2), cut('b', 5, 6)], 10, options());
+
+  it("finds the range containing a time", () => {
+    expect(findRemovedRange(ranges, 5.5)?.cutIds).toEqual(['b']);
+    expect(findRemovedRange(ranges, 1)?.cutIds).toEqual(['a']);
+  });
+
+  it("finds nothing between ranges or at a range's end", () => {
+    expect(findRemovedRange(ranges, 3)).toBeUndefined();
+    expect(findRemovedRange(ranges, 2)).toBeUndefined();
+  });
+});
+
+describe("mapToEditedTime", () => {
+  const kept = [{ start: 0, end: 2 }, { start: 3, end: 5 }, { start: 6, end: 10 }];
+
+  it("shifts kept times back by what was removed before them", () => {
+    expect(mapToEditedTime(1, kept)).toBe(1);
+    expect(mapToEditedTime(4, kept)).toBe(3);
+    expect(mapToEditedTime(8, kept)).toBe(6);
+  });
+
+  it("collapses removed times onto the join", () => {
+    expect(mapToEditedTime(2.5, kept)).toBe(2);
+    expect(mapToEditedTime(5.5, kept)).toBe(4);
+  });
+
+  it("clamps times past the end to the edited length", () => {
+    expect(mapToEditedTime(12, kept)).toBe(8);
+  });
+});
@@ -0,0 +1,130 @@
+import { CutEvent, CutNormalization, SilenceHandling } from "../types";
+
+export interface Segment {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// A stretch of the source that the edit removes, with the cuts it came from
+export interface RemovedRange extends Segment {
+  cutIds: string[];
+  silenceOnly: boolean; // every cut in the range is a detected silence
+}
+
+export const DEFAULT_NORMALIZATION: CutNormalization = {
+  padBefore: 0,
+  padAfter: 0,
+  mergeGap: 0.05,
+  minKeptSegment: 0.1,
+  silence: {
+    mode: 'remove',
+    keepSeconds: 0.4,
+    keepRatio: 0
+  }
+};
+
+// Anything shorter than a frame only produces encoder warnings
+const MIN_LENGTH = 0.01;
+
+/** Whether a cut shortens its pause rather than removing it. */
+export const isShortenedSilence = (cut: CutEvent, silence: SilenceHandling): boolean =>
+  cut.type === 'silence' && (cut.silenceMode ?? silence.mode) === 'shorten';
+
+/** Length of pause left behind when a pause of `length` seconds is shortened. */
+export const keptPause = (length: number, silence: SilenceHandling): number =>
+  Math.min(length, silence.keepSeconds + silence.keepRatio * Math.max(0, length - silence.keepSeconds));
+
+/**
+ * Turns accepted cuts into the ranges the edit actually removes. Shortened
+ * silences give up only their middle, leaving half the kept pause on each side.
+ * Each cut is shrunk by the padding so some breath is left around it, clamped
+ * to the media, and joined with any cut it overlaps or nearly touches. Kept stretches shorter
+ * than `minKeptSegment` (including at either end of the media) are removed too,
+ * so the edit never leaves a fragment too short to hear.
+ */
+export const normalizeCuts = (cuts: CutEvent[], duration: number, options: CutNormalization): RemovedRange[] => {
+  const padded = cuts
+    .filter(c => c.status === 'accepted')
+    .map(c => {
+      const keep = isShortenedSilence(c, options.silence) ? keptPause(c.end - c.start, options.silence) / 2 : 0;
+      return {
+        start: Math.max(0, c.start + keep + options.padBefore),
+        end: Math.min(duration, c.end - keep - options.padAfter),
+        cutIds: [c.id],
+        silenceOnly: c.type === 'silence'
+      };
+    })
+    .filter(r => r.end - r.start > MIN_LENGTH)
+    .sort((a, b) => a.start - b.start);
+
+  const joinWithin = Math.max(options.mergeGap, options.minKeptSegment, 0);
+  const ranges: RemovedRange[] = [];
+  for (const range of padded) {
+    const last = ranges[ranges.length - 1];
+    if (last && range.start - last.end <= joinWithin) {
+      last.end = Math.max(last.end, range.end);
+      last.cutIds.push(...range.cutIds);
+      last.silenceOnly = last.silenceOnly && range.silenceOnly;
+    } else {
+      ranges.push({ ...range });
+    }
+  }
+
+  if (ranges.length > 0) {
+    if (ranges[0].start < options.minKeptSegment) ranges[0].start = 0;
+    const last = ranges[ranges.length - 1];
+    if (duration - last.end < options.minKeptSegment) last.end = duration;
+  }
+  return ranges;
+};
+
+/**
+ * Returns the parts of the timeline that survive the edit, i.e. everything
+ * outside the normalized removed ranges.
+ */
+export const computeKeptSegments = (cuts: CutEvent[], duration: number, options: CutNormalization): Segment[] => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const range of normalizeCuts(cuts, duration, options)) {
+    if (range.start > cursor) segments.push({ start: cursor, end: range.start });
+    cursor = Math.max(cursor, range.end);
+  }
+  if (cursor < duration) segments.push({ start: cursor, end: duration });
+  return segments.filter(s => s.end - s.start > MIN_LENGTH);
+};
+
+/** Total seconds removed by the edit; overlapping cuts are only counted once. */
+export const totalRemoved = (ranges: Segment[]): number =>
+  ranges.reduce((sum, r) => sum + (r.end - r.start), 0);
+
+/** The first range that ends after `time`: the one containing it, or the next one. `ranges` must be sorted. */
+export const nextRemovedRange = <T extends Segment>(ranges: T[], time: number): T | undefined => {
+  let lo = 0;
+  let hi = ranges.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (ranges[mid].end <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  return ranges[lo];
+};
+
+/** The removed range containing `time`, if any. `ranges` must be sorted. */
+export const findRemovedRange = <T extends Segment>(ranges: T[], time: number): T | undefined => {
+  const range = nextRemovedRange(ranges, time);
+  return range && time >= range.start ? range : undefined;
+};
+
+/**
+ * Maps a time on the original timeline to the edited one. Times inside a
+ * removed region collapse onto the join where that region was cut out.
+ */
+export const mapToEditedTime = (time: number, kept: Segment[]): number => {
+  let offset = 0;
+  for (const s of kept) {
+    if (time < s.start) return offset;
+    if (time <= s.end) return offset + (time - s.start);
+    offset += s.end - s.start;
+  }
+  return offset;
+};
@@ -0,0 +1,77 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Every persistent store is created here so version upgrades live in one place.
+
+const DB_NAME = 'claritycut';
+const DB_VERSION = 3;
+
+export type StoreName = 'projects' | 'phraseLists' | 'coachingSessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('projects')) {
+        db.createObjectStore('projects', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('phraseLists')) {
+        db.createObjectStore('phraseLists', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('coachingSessions')) {
+        db.createObjectStore('coachingSessions', { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+export const putOne = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const deleteOne = async (store: StoreName, key: string): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+/**
+ * Reads, modifies and writes one record inside a single transaction, so
+ * concurrent updates to different fields cannot overwrite each other.
+ */
+export const updateOne = async <T>(store: StoreName, key: string, update: (existing: T) => T): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  const existing = await promisify(objectStore.get(key) as IDBRequest<T | undefined>);
+  if (existing !== undefined) objectStore.put(update(existing));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { TranscriptWord } from "../types";
+import { detectTranscriptCuts, findPhraseMatches, normalizeToken } from "./detectionService";
+
+// One word every half second, each 0.4 s long
+const wordsFrom = (text: string): TranscriptWord[] =>
+  text.split(' ').map((t, i) => ({ text: t, start: i * 0.5, end: i * 0.5 + 0.4, confidence: 1 }));
+
+const found = (text: string, phrases: string[] = []) =>
+  detectTranscriptCuts(wordsFrom(text), phrases.map(phrase => ({ phrase }))).map(c => [c.type, c.word]);
+
+describe("normalizeToken", () => {
+  it("lowercases and strips punctuation but keeps inner hyphens and apostrophes", () => {
+    expect(normalizeToken('Um,')).toBe('um');
+    expect(normalizeToken('"Don\'t!"')).toBe("don't");
+    expect(normalizeToken('th-th-the')).toBe('th-th-the');
+    expect(normalizeToken('p-')).toBe('p');
+  });
+});
+
+describe("findPhraseMatches", () => {
+  it("returns word ranges, end exclusive", () => {
+    expect(findPhraseMatches(['so', 'you', 'know', 'you', 'know'], 'You know')).toEqual([[1, 3], [3, 5]]);
+  });
+});
+
+describe("detectTranscriptCuts", () => {
+  it("finds fillers, clichés, stutters and repetitions in time order", () => {
+    expect(found('Um, to be honest I I think we, we should th-th-the end')).toEqual([
+      ['filler', 'Um'],
+      ['cliche', 'to be honest'],
+      ['stutter', 'I'],
+      ['stutter', 'we'],
+      ['stutter', 'th-th-the']
+    ]);
+    expect(found('I mean I mean it')).toEqual([['repetition', 'I mean']]);
+  });
+
+  it("leaves built-in detections out of words a custom phrase took", () => {
+    expect(found('so um well', ['um well'])).toEqual([['custom', 'um well']]);
+  });
+
+  it("skips built-in phrases that only partly overlap a custom phrase", () => {
+    // "you know" shares "know" with the custom phrase but starts before it
+    expect(found('you know what I said', ['know what'])).toEqual([['custom', 'know what']]);
+    expect(found('at the end of the day', ['the day'])).toEqual([['custom', 'the day']]);
+  });
+
+  it("does not let custom phrases overlap each other", () => {
+    expect(found('praise god is good', ['praise god', 'god is good'])).toEqual([['custom', 'praise god']]);
+  });
+
+  it("skips repetitions that start in a custom phrase", () => {
+    expect(found('big deal big deal', ['big deal'])).toEqual([['custom', 'big deal'], ['custom', 'big deal']]);
+  });
+});
@@ -0,0 +1,173 @@
+import { CutEvent, CutType, TranscriptWord } from "../types";
+
+// Base confidence per filler. Ambiguous words ("like", "so") are often meaningful,
+// so they start lower and are more likely to be left for human review.
+const FILLERS: { phrase: string; weight: number }[] = [
+  { phrase: 'um', weight: 0.98 },
+  { phrase: 'umm', weight: 0.98 },
+  { phrase: 'uh', weight: 0.98 },
+  { phrase: 'uhh', weight: 0.98 },
+  { phrase: 'er', weight: 0.95 },
+  { phrase: 'erm', weight: 0.95 },
+  { phrase: 'ah', weight: 0.9 },
+  { phrase: 'hmm', weight: 0.9 },
+  { phrase: 'you know', weight: 0.8 },
+  { phrase: 'like', weight: 0.6 },
+];
+
+const CLICHES = [
+  'at the end of the day',
+  'to be honest',
+  'hallelujah',
+  'literally',
+  'basically',
+  'glory to jesus',
+  'glory to god',
+  'praise god',
+  'praise the lord',
+  'thank you lord',
+  'thank you father',
+];
+
+const FILLER_TOKENS = new Set(FILLERS.map(f => f.phrase).filter(p => !p.includes(' ')));
+
+const MAX_REPEATED_PHRASE = 4; // words
+
+/**
+ * Lowercases and strips punctuation so "Um," and "um" compare equal.
+ * Hyphens and apostrophes survive because they carry stutters and contractions.
+ */
+export const normalizeToken = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}'-]+/gu, '').replace(/^[-']+|[-']+$/g, '');
+
+/**
+ * Returns `[from, to)` word index ranges where `phrase` occurs in the transcript.
+ */
+export const findPhraseMatches = (tokens: string[], phrase: string): [number, number][] => {
+  const target = phrase.split(/\s+/).map(normalizeToken).filter(Boolean);
+  if (target.length === 0) return [];
+  const matches: [number, number][] = [];
+  for (let i = 0; i + target.length <= tokens.length; i++) {
+    let hit = true;
+    for (let j = 0; j < target.length; j++) {
+      if (tokens[i + j] !== target[j]) { hit = false; break; }
+    }
+    if (hit) {
+      matches.push([i, i + target.length]);
+      i += target.length - 1; // don't report overlapping matches of the same phrase
+    }
+  }
+  return matches;
+};
+
+export const spanText = (words: TranscriptWord[], from: number, to: number) =>
+  words.slice(from, to).map(w => w.text.replace(/[.,!?;:]+$/, '')).join(' ');
+
+export const spanConfidence = (words: TranscriptWord[], from: number, to: number, weight: number) => {
+  const span = words.slice(from, to);
+  const avg = span.reduce((acc, w) => acc + w.confidence, 0) / span.length;
+  return Math.max(0, Math.min(1, avg * weight));
+};
+
+// "th-th-the", "I-I": a hyphenated token whose parts are prefixes of the last part.
+const isHyphenStutter = (token: string) => {
+  const parts = token.split('-').filter(Boolean);
+  if (parts.length < 2) return false;
+  const last = parts[parts.length - 1];
+  return parts.slice(0, -1).every(p => last.startsWith(p));
+};
+
+export interface CustomPhrase {
+  phrase: string;
+  list?: string; // name of the saved list it belongs to, if any
+}
+
+/**
+ * Derives custom-phrase, filler, cliché, repetition and stutter cuts from a
+ * word-level transcript. Every cut spans whole words, so its boundaries come
+ * straight from the transcript timings. Cuts are returned sorted by start time.
+ */
+export const detectTranscriptCuts = (words: TranscriptWord[], customPhrases: CustomPhrase[] = []): CutEvent[] => {
+  const tokens = words.map(w => normalizeToken(w.text));
+  const cuts: CutEvent[] = [];
+  const counters: Partial<Record<CutType, number>> = {};
+  // Words already claimed by a custom phrase, so built-in detections don't overlap them
+  const claimed = new Set<number>();
+  const isClaimed = (from: number, to: number) => {
+    for (let i = from; i < to; i++) if (claimed.has(i)) return true;
+    return false;
+  };
+
+  const addCut = (type: CutType, from: number, to: number, weight: number, source?: CustomPhrase) => {
+    const n = counters[type] ?? 0;
+    counters[type] = n + 1;
+    cuts.push({
+      id: `${type}-${n}`,
+      type,
+      word: spanText(words, from, to),
+      start: words[from].start,
+      end: words[to - 1].end,
+      confidence: spanConfidence(words, from, to, weight),
+      status: 'accepted',
+      ...(source && { phrase: source.phrase, phraseList: source.list })
+    });
+  };
+
+  // The user's own phrases come first and take precedence
+  for (const source of customPhrases) {
+    for (const [from, to] of findPhraseMatches(tokens, source.phrase)) {
+      if (isClaimed(from, to)) continue;
+      for (let i = from; i < to; i++) claimed.add(i);
+      addCut('custom', from, to, 0.95, source);
+    }
+  }
+
+  for (const { phrase, weight } of FILLERS) {
+    for (const [from, to] of findPhraseMatches(tokens, phrase)) {
+      if (!isClaimed(from, to)) addCut('filler', from, to, weight);
+    }
+  }
+
+  for (const phrase of CLICHES) {
+    for (const [from, to] of findPhraseMatches(tokens, phrase)) {
+      if (!isClaimed(from, to)) addCut('cliche', from, to, 0.9);
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    // Fillers are already handled above; "um um" is two fillers, not a stutter.
+    if (!token || FILLER_TOKENS.has(token) || claimed.has(i)) continue;
+
+    // Stutters: "th-th-the", a cut-off start of the next word ("p please"), or a doubled word ("I I").
+    if (isHyphenStutter(token)) {
+      addCut('stutter', i, i + 1, 0.9);
+      continue;
+    }
+    const next = tokens[i + 1];
+    // A cut-off start is only trusted when the recognizer marked it ("p-"); otherwise "a and" would match.
+    const isCutOff = /[-\u2013\u2014]$/.test(words[i].text.trim());
+    if (next && (next === token || (isCutOff && next.startsWith(token)))) {
+      // Only the first attempt is removed; the completed word stays.
+      addCut('stutter', i, i + 1, next === token ? 0.7 : 0.85);
+      continue;
+    }
+
+    // Repetitions: a phrase of 2+ words immediately said again ("I mean, I mean").
+    // The longest repeat wins and the first utterance is removed.
+    for (let n = MAX_REPEATED_PHRASE; n >= 2; n--) {
+      if (i + 2 * n > tokens.length) continue;
+      let repeated = !isClaimed(i, i + n);
+      for (let j = 0; j < n; j++) {
+        if (!tokens[i + j] || tokens[i + j] !== tokens[i + n + j]) { repeated = false; break; }
+      }
+      if (repeated) {
+        addCut('repetition', i, i + n, 0.85);
+        i += n - 1;
+        break;
+      }
+    }
+  }
+
+  return cuts.sort((a, b) => a.start - b.start);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { CutEvent } from "../types";
+import { DEFAULT_NORMALIZATION } from "./cutListService";
+import { buildEdl, FRAME_RATES, framesToTimecode, MediaInfo } from "./editListService";
+
+const rate = (label: string) => FRAME_RATES.find(r => r.label === label)!;
+
+describe("framesToTimecode", () => {
+  it("counts non-drop frames straight through", () => {
+    expect(framesToTimecode(0, rate('25'))).toBe('00:00:00:00');
+    expect(framesToTimecode(25 * 3661 + 7, rate('25'))).toBe('01:01:01:07');
+    expect(framesToTimecode(1800, rate('30'))).toBe('00:01:00:00');
+  });
+
+  it("skips frames 0 and 1 at each minute at 29.97 drop-frame", () => {
+    const df = rate('29.97');
+    expect(framesToTimecode(1799, df)).toBe('00:00:59;29');
+    expect(framesToTimecode(1800, df)).toBe('00:01:00;02');
+    expect(framesToTimecode(3597, df)).toBe('00:01:59;29');
+    expect(framesToTimecode(3598, df)).toBe('00:02:00;02');
+  });
+
+  it("keeps frames 0 and 1 every tenth minute", () => {
+    const df = rate('29.97');
+    expect(framesToTimecode(17981, df)).toBe('00:09:59;29');
+    expect(framesToTimecode(17982, df)).toBe('00:10:00;00');
+    expect(framesToTimecode(107892, df)).toBe('01:00:00;00');
+  });
+
+  it("skips four frames a minute at 59.94", () => {
+    const df = rate('59.94');
+    expect(framesToTimecode(3599, df)).toBe('00:00:59;59');
+    expect(framesToTimecode(3600, df)).toBe('00:01:00;04');
+    expect(framesToTimecode(35964, df)).toBe('00:10:00;00');
+  });
+
+  it("uses non-drop timecode at 23.976", () => {
+    expect(framesToTimecode(1440, rate('23.976'))).toBe('00:01:00:00');
+  });
+});
+
+describe("buildEdl", () => {
+  const media: MediaInfo = { fileName: 'sermon.mp4', duration: 10, width: 1920, height: 1080, frameRate: rate('29.97') };
+  const cuts: CutEvent[] = [{ id: 'a', type: 'filler', start: 2, end: 3, confidence: 0.9, status: 'accepted' }];
+  const normalization = { ...DEFAULT_NORMALIZATION, mergeGap: 0, minKeptSegment: 0 };
+
+  it("writes one event per kept segment, recorded back to back from one hour", () => {
+    const lines = buildEdl(cuts, media, normalization).split('\r\n');
+    expect(lines[0]).toBe('TITLE: sermon');
+    expect(lines[1]).toBe('FCM: DROP FRAME');
+    const events = lines.filter(l => /^\d{3} /.test(l));
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatch(/00:00:00;00 00:00:02;00 01:00:00;00 01:00:02;00$/);
+    // 3 s into the source is frame 90 (rounded from 89.91); the record side continues where the first event ended
+    expect(events[1]).toMatch(/00:00:03;00 00:00:10;00 01:00:02;00 01:00:09;00$/);
+  });
+});
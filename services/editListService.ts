@@ -0,0 +1,282 @@
+import { CutEvent, CutNormalization } from "../types";
+import { computeKeptSegments, Segment } from "./cutListService";
+
+export type EditListFormat = 'edl' | 'fcpxml' | 'xmeml';
+
+export interface FrameRate {
+  label: string;
+  timebase: number; // nominal frames per second (30 for 29.97)
+  ntsc: boolean; // true for the x1000/1001 rates
+}
+
+export const FRAME_RATES: FrameRate[] = [
+  { label: '23.976', timebase: 24, ntsc: true },
+  { label: '24', timebase: 24, ntsc: false },
+  { label: '25', timebase: 25, ntsc: false },
+  { label: '29.97', timebase: 30, ntsc: true },
+  { label: '30', timebase: 30, ntsc: false },
+  { label: '50', timebase: 50, ntsc: false },
+  { label: '59.94', timebase: 60, ntsc: true },
+  { label: '60', timebase: 60, ntsc: false },
+];
+
+export interface MediaInfo {
+  fileName: string;
+  duration: number; // seconds
+  width: number;
+  height: number;
+  frameRate: FrameRate;
+}
+
+const fps = (rate: FrameRate) => rate.ntsc ? rate.timebase * 1000 / 1001 : rate.timebase;
+
+// Drop-frame timecode only exists for 29.97 and 59.94
+const isDropFrame = (rate: FrameRate) => rate.ntsc && rate.timebase % 30 === 0;
+
+const toFrames = (seconds: number, rate: FrameRate) => Math.round(seconds * fps(rate));
+
+/**
+ * Formats a frame count as SMPTE timecode. Drop-frame uses `;` before the frames
+ * field and skips frame numbers 0/1 (0-3 at 59.94) each minute except every tenth.
+ */
+export const framesToTimecode = (frames: number, rate: FrameRate): string => {
+  const base = rate.timebase;
+  let f = frames;
+  if (isDropFrame(rate)) {
+    const drop = base / 15; // 2 at 29.97, 4 at 59.94
+    const perMinute = base * 60 - drop;
+    const perTenMinutes = perMinute * 10 + drop;
+    const tens = Math.floor(f / perTenMinutes);
+    const rem = f % perTenMinutes;
+    f += drop * 9 * tens + (rem > drop ? drop * Math.floor((rem - drop) / perMinute) : 0);
+  }
+  const ff = f % base;
+  const ss = Math.floor(f / base) % 60;
+  const mm = Math.floor(f / (base * 60)) % 60;
+  const hh = Math.floor(f / (base * 3600));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${isDropFrame(rate) ? ';' : ':'}${pad(ff)}`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Source media has no embedded timecode we can read in the browser, so it is assumed to start at zero.
+// Segments are converted to whole frames so record and source durations always agree.
+const toFrameSegments = (segments: Segment[], rate: FrameRate) =>
+  segments
+    .map(s => ({ in: toFrames(s.start, rate), out: toFrames(s.end, rate) }))
+    .filter(s => s.out > s.in);
+
+/**
+ * CMX3600 EDL with one video+audio event per kept segment. The record side starts at 01:00:00:00.
+ */
+export const buildEdl = (cuts: CutEvent[], media: MediaInfo, normalization: CutNormalization): string => {
+  const rate = media.frameRate;
+  const segments = toFrameSegments(computeKeptSegments(cuts, media.duration, normalization), rate);
+  // One hour of timecode; drop-frame skips `drop` labels in 54 of its 60 minutes
+  const recordStart = rate.timebase * 3600 - (isDropFrame(rate) ? (rate.timebase / 15) * 54 : 0);
+  const reel = 'AX';
+  const lines = [
+    `TITLE: ${baseName(media.fileName).slice(0, 70)}`,
+    `FCM: ${isDropFrame(rate) ? 'DROP FRAME' : 'NON-DROP FRAME'}`,
+    ''
+  ];
+
+  let record = recordStart;
+  segments.forEach((s, i) => {
+    const length = s.out - s.in;
+    lines.push(
+      `${(i + 1).toString().padStart(3, '0')}  ${reel.padEnd(8)} AA/V  C        ` +
+      `${framesToTimecode(s.in, rate)} ${framesToTimecode(s.out, rate)} ` +
+      `${framesToTimecode(record, rate)} ${framesToTimecode(record + length, rate)}`,
+      `* FROM CLIP NAME: ${media.fileName}`,
+      ''
+    );
+    record += length;
+  });
+
+  return lines.join('\r\n');
+};
+
+/**
+ * FCPXML 1.10 project with the kept segments laid end to end on the primary storyline.
+ */
+export const buildFcpxml = (cuts: CutEvent[], media: MediaInfo, normalization: CutNormalization): string => {
+  const rate = media.frameRate;
+  const segments = toFrameSegments(computeKeptSegments(cuts, media.duration, normalization), rate);
+  // Rational time: N frames = N * frameDuration
+  const frameNum = rate.ntsc ? 1001 : 1;
+  const frameDen = rate.ntsc ? rate.timebase * 1000 : rate.timebase;
+  const t = (frames: number) => frames === 0 ? '0s' : `${frames * frameNum}/${frameDen}s`;
+  const tcFormat = isDropFrame(rate) ? 'DF' : 'NDF';
+  const name = escapeXml(baseName(media.fileName));
+  const totalFrames = segments.reduce((acc, s) => acc + s.out - s.in, 0);
+  const assetFrames = toFrames(media.duration, rate);
+
+  let offset = 0;
+  const clips = segments.map(s => {
+    const clip = `          <asset-clip ref="r2" name="${name}" offset="${t(offset)}" start="${t(s.in)}" duration="${t(s.out - s.in)}" format="r1" tcFormat="${tcFormat}"/>`;
+    offset += s.out - s.in;
+    return clip;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.10">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${frameNum}/${frameDen}s" width="${media.width}" height="${media.height}"/>`,
+    `    <asset id="r2" name="${name}" start="0s" duration="${t(assetFrames)}" hasVideo="1" hasAudio="1" format="r1" audioSources="1" audioChannels="2">`,
+    `      <media-rep kind="original-media" src="file:///${encodeURIComponent(media.fileName)}"/>`,
+    '    </asset>',
+    '  </resources>',
+    '  <library>',
+    '    <event name="ClarityCut">',
+    `      <project name="${name} (ClarityCut)">`,
+    `        <sequence format="r1" duration="${t(totalFrames)}" tcStart="0s" tcFormat="${tcFormat}" audioLayout="stereo" audioRate="48k">`,
+    '          <spine>',
+    ...clips.map(c => `  ${c}`),
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Final Cut Pro 7 / Premiere XML (xmeml v4) with matching video and audio tracks.
+ */
+export const buildXmeml = (cuts: CutEvent[], media: MediaInfo, normalization: CutNormalization): string => {
+  const rate = media.frameRate;
+  const segments = toFrameSegments(computeKeptSegments(cuts, media.duration, normalization), rate);
+  const name = escapeXml(baseName(media.fileName));
+  const fileName = escapeXml(media.fileName);
+  const rateXml = `<rate><timebase>${rate.timebase}</timebase><ntsc>${rate.ntsc ? 'TRUE' : 'FALSE'}</ntsc></rate>`;
+  const assetFrames = toFrames(media.duration, rate);
+  const totalFrames = segments.reduce((acc, s) => acc + s.out - s.in, 0);
+
+  // The full <file> definition appears once; every later clip refers to it by id.
+  const fileXml = (full: boolean) => full
+    ? [
+        '<file id="file-1">',
+        `  <name>${fileName}</name>`,
+        `  <pathurl>file://localhost/${encodeURIComponent(media.fileName)}</pathurl>`,
+        `  ${rateXml}`,
+        `  <duration>${assetFrames}</duration>`,
+        '  <media>',
+        `    <video><samplecharacteristics><width>${media.width}</width><height>${media.height}</height></samplecharacteristics></video>`,
+        '    <audio><channelcount>2</channelcount></audio>',
+        '  </media>',
+        '</file>'
+      ]
+    : ['<file id="file-1"/>'];
+
+  const clipItems = (kind: 'video' | 'audio') => {
+    let record = 0;
+    return segments.flatMap((s, i) => {
+      const length = s.out - s.in;
+      const item = [
+        `<clipitem id="${kind}-clipitem-${i + 1}">`,
+        `  <name>${name}</name>`,
+        `  <duration>${assetFrames}</duration>`,
+        `  ${rateXml}`,
+        `  <start>${record}</start>`,
+        `  <end>${record + length}</end>`,
+        `  <in>${s.in}</in>`,
+        `  <out>${s.out}</out>`,
+        ...fileXml(kind === 'video' && i === 0).map(l => `  ${l}`),
+        ...(kind === 'audio'
+          ? ['  <sourcetrack><mediatype>audio</mediatype><trackindex>1</trackindex></sourcetrack>']
+          : []),
+        '</clipitem>'
+      ];
+      record += length;
+      return item;
+    });
+  };
+
+  const indent = (lines: string[], depth: number) => lines.map(l => `${'  '.repeat(depth)}${l}`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE xmeml>',
+    '<xmeml version="4">',
+    '  <sequence id="sequence-1">',
+    `    <name>${name} (ClarityCut)</name>`,
+    `    <duration>${totalFrames}</duration>`,
+    `    ${rateXml}`,
+    `    <timecode>${rateXml}<string>${framesToTimecode(0, rate)}</string><frame>0</frame><displayformat>${isDropFrame(rate) ? 'DF' : 'NDF'}</displayformat></timecode>`,
+    '    <media>',
+    '      <video>',
+    `        <format><samplecharacteristics>${rateXml}<width>${media.width}</width><height>${media.height}</height></samplecharacteristics></format>`,
+    '        <track>',
+    ...indent(clipItems('video'), 5),
+    '        </track>',
+    '      </video>',
+    '      <audio>',
+    '        <track>',
+    ...indent(clipItems('audio'), 5),
+    '        </track>',
+    '      </audio>',
+    '    </media>',
+    '  </sequence>',
+    '</xmeml>',
+    ''
+  ].join('\n');
+};
+
+export const EDIT_LIST_FILES: Record<EditListFormat, { extension: string; mime: string; build: (cuts: CutEvent[], media: MediaInfo, normalization: CutNormalization) => string }> = {
+  edl: { extension: 'edl', mime: 'text/plain', build: buildEdl },
+  fcpxml: { extension: 'fcpxml', mime: 'application/xml', build: buildFcpxml },
+  xmeml: { extension: 'xml', mime: 'application/xml', build: buildXmeml },
+};
+
+/**
+ * Estimates the frame rate by timing presented frames with requestVideoFrameCallback,
+ * then snaps to the nearest standard rate. Falls back to 29.97 where unsupported.
+ */
+export const detectFrameRate = (video: HTMLVideoElement): Promise<FrameRate> => {
+  const fallback = FRAME_RATES.find(r => r.label === '29.97')!;
+  if (!('requestVideoFrameCallback' in video)) return Promise.resolve(fallback);
+
+  return new Promise(resolve => {
+    const probe = document.createElement('video');
+    probe.muted = true;
+    probe.playsInline = true;
+    probe.src = video.currentSrc || video.src;
+
+    const deltas: number[] = [];
+    let last: number | null = null;
+    let done = false;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      probe.pause();
+      probe.removeAttribute('src');
+      probe.load();
+      if (deltas.length < 5) return resolve(fallback);
+      deltas.sort((a, b) => a - b);
+      const measured = 1 / deltas[Math.floor(deltas.length / 2)];
+      resolve(FRAME_RATES.reduce((best, r) => Math.abs(fps(r) - measured) < Math.abs(fps(best) - measured) ? r : best));
+    };
+
+    const onFrame = (_now: number, meta: VideoFrameCallbackMetadata) => {
+      if (done) return;
+      if (last !== null && meta.mediaTime > last) deltas.push(meta.mediaTime - last);
+      last = meta.mediaTime;
+      if (deltas.length >= 30) finish();
+      else probe.requestVideoFrameCallback(onFrame);
+    };
+
+    probe.requestVideoFrameCallback(onFrame);
+    probe.play().catch(() => resolve(fallback));
+    setTimeout(finish, 3000); // don't hang on streams that never present frames
+  });
+};
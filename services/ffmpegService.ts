@@ -0,0 +1,66 @@
+import { FFFSType, FFmpeg } from "@ffmpeg/ffmpeg";
+import coreURL from "@ffmpeg/core?url";
+import wasmURL from "@ffmpeg/core/wasm?url";
+
+// The wasm core is large (~30MB). It ships with the app as a static asset, is
+// fetched lazily on first use and the loaded instance is shared by rendering
+// and audio extraction for the rest of the session.
+let current: { ffmpeg: FFmpeg; loaded: Promise<FFmpeg> } | null = null;
+
+export const getFFmpeg = (): Promise<FFmpeg> => {
+  if (!current) {
+    const ffmpeg = new FFmpeg();
+    const loaded = ffmpeg.load({ coreURL, wasmURL }).then(() => ffmpeg);
+    current = { ffmpeg, loaded };
+    // Don't keep a failed load, so a retry can succeed.
+    loaded.catch(() => { if (current?.ffmpeg === ffmpeg) current = null; });
+  }
+  return current.loaded;
+};
+
+/**
+ * Stops `ffmpeg`, interrupting any running exec (ffmpeg.wasm cannot cancel one
+ * otherwise). The next `getFFmpeg` loads a fresh instance.
+ */
+export const terminateFFmpeg = (ffmpeg: FFmpeg) => {
+  ffmpeg.terminate();
+  if (current?.ffmpeg === ffmpeg) current = null;
+};
+
+let nextMount = 0;
+
+/**
+ * Mounts `file` read-only into ffmpeg's file system and returns its path.
+ * Mounting rather than copying lets ffmpeg read the file on demand, so a long
+ * recording never has to fit in wasm memory. Call `unmount` when done.
+ */
+export const mountFile = async (ffmpeg: FFmpeg, file: File, name: string): Promise<{ path: string; unmount: () => Promise<void> }> => {
+  const dir = `/input${nextMount++}`;
+  await ffmpeg.createDir(dir);
+  await ffmpeg.mount(FFFSType.WORKERFS, { blobs: [{ name, data: file }] }, dir);
+  return {
+    path: `${dir}/${name}`,
+    unmount: async () => {
+      await ffmpeg.unmount(dir).catch(() => undefined);
+      await ffmpeg.deleteDir(dir).catch(() => undefined);
+    }
+  };
+};
+
+/**
+ * Whether the mounted input has an audio stream. Running ffmpeg with only an
+ * input prints the stream list and exits with an error, which is expected here.
+ */
+export const hasAudioStream = async (ffmpeg: FFmpeg, path: string): Promise<boolean> => {
+  let found = false;
+  const handleLog = ({ message }: { message: string }) => {
+    if (/Stream #\d+:\d+.*: Audio:/.test(message)) found = true;
+  };
+  ffmpeg.on('log', handleLog);
+  try {
+    await ffmpeg.exec(['-hide_banner', '-i', path]);
+  } finally {
+    ffmpeg.off('log', handleLog);
+  }
+  return found;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { CutEvent } from "../types";
+import { createCommand, EMPTY_HISTORY, pushCommand, redoCommand, travelTo, undoCommand } from "./historyService";
+
+const cut = (id: string, start: number, end: number, status: CutEvent['status'] = 'accepted'): CutEvent =>
+  ({ id, type: 'filler', start, end, confidence: 0.9, status });
+
+describe("createCommand", () => {
+  it("returns null when nothing changed", () => {
+    const cuts = [cut('a', 0, 1), cut('b', 2, 3)];
+    expect(createCommand(cuts, [...cuts], 'noop')).toBeNull();
+  });
+
+  it("records only the cuts an edit touched", () => {
+    const a = cut('a', 0, 1);
+    const b = cut('b', 2, 3);
+    const c = cut('c', 4, 5);
+    const rejected = { ...b, status: 'rejected' as const };
+    const added = cut('d', 6, 7);
+    const command = createCommand([a, b, c], [a, rejected, added], 'edit')!;
+
+    expect(command.label).toBe('edit');
+    expect(command.before).toEqual([b, c]);
+    expect(command.after).toEqual([rejected, added]);
+  });
+});
+
+describe("undo and redo", () => {
+  const prev = [cut('a', 0, 1), cut('b', 2, 3)];
+  const next = [{ ...prev[0], end: 1.5 }, cut('c', 4, 5)];
+  const command = createCommand(prev, next, 'edit')!;
+
+  it("restores the previous cut list", () => {
+    expect(undoCommand(next, command)).toEqual(prev);
+  });
+
+  it("reapplies the edit", () => {
+    expect(redoCommand(prev, command)).toEqual(next);
+  });
+
+  it("leaves cuts the command did not touch alone", () => {
+    const other = cut('z', 10, 11);
+    expect(undoCommand([...next, other], command)).toEqual([...prev, other]);
+  });
+});
+
+describe("pushCommand", () => {
+  it("clears the redo stack", () => {
+    const first = createCommand([], [cut('a', 0, 1)], 'add a')!;
+    const second = createCommand([], [cut('b', 0, 1)], 'add b')!;
+    const history = pushCommand({ past: [], future: [first] }, second);
+    expect(history).toEqual({ past: [second], future: [] });
+  });
+
+  it("drops the oldest commands past the limit", () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 510; i++) history = pushCommand(history, createCommand([], [cut(`c${i}`, i, i + 1)], `add ${i}`)!);
+    expect(history.past).toHaveLength(500);
+    expect(history.past[0].label).toBe('add 10');
+  });
+});
+
+describe("travelTo", () => {
+  const states = [[], [cut('a', 0, 1)], [cut('a', 0, 1), cut('b', 2, 3)], [cut('a', 0, 1, 'rejected'), cut('b', 2, 3)]];
+  const commands = states.slice(1).map((state, i) => createCommand(states[i], state, `step ${i + 1}`)!);
+  const history = commands.reduce(pushCommand, EMPTY_HISTORY);
+
+  it("undoes several steps at once", () => {
+    const result = travelTo(states[3], history, 1);
+    expect(result.cuts).toEqual(states[1]);
+    expect(result.history.past).toEqual(commands.slice(0, 1));
+    expect(result.history.future).toEqual(commands.slice(1));
+  });
+
+  it("redoes back to the latest state", () => {
+    const back = travelTo(states[3], history, 0);
+    const forward = travelTo(back.cuts, back.history, 3);
+    expect(forward.cuts).toEqual(states[3]);
+    expect(forward.history).toEqual(history);
+  });
+
+  it("clamps positions outside the history", () => {
+    expect(travelTo(states[3], history, 99).cuts).toEqual(states[3]);
+    expect(travelTo(states[3], history, -5).cuts).toEqual([]);
+  });
+});
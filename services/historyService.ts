@@ -0,0 +1,82 @@
+import { CutCommand, CutEvent, CutHistory } from "../types";
+
+/** Applies an edit to the cut list and records it in the history under `label`. */
+export type EditCuts = (label: string, update: (prev: CutEvent[]) => CutEvent[]) => void;
+
+export const EMPTY_HISTORY: CutHistory = { past: [], future: [] };
+
+// Oldest commands are dropped past this point to bound memory and project size
+const MAX_HISTORY = 500;
+
+/**
+ * Describes the change from `prev` to `next` as a command, or returns null
+ * when nothing changed. Unchanged cuts are recognised by reference, so edits
+ * must copy the cuts they modify (as every `map(c => ...)` update does).
+ */
+export const createCommand = (prev: CutEvent[], next: CutEvent[], label: string): CutCommand | null => {
+  const prevById = new Map(prev.map(c => [c.id, c]));
+  const nextById = new Map(next.map(c => [c.id, c]));
+  const before: CutEvent[] = [];
+  const after: CutEvent[] = [];
+
+  for (const [id, cut] of prevById) {
+    const updated = nextById.get(id);
+    if (updated === cut) continue;
+    before.push(cut);
+    if (updated) after.push(updated);
+  }
+  for (const [id, cut] of nextById) {
+    if (!prevById.has(id)) after.push(cut);
+  }
+  if (before.length === 0 && after.length === 0) return null;
+
+  return { id: `edit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, label, timestamp: Date.now(), before, after };
+};
+
+// Swaps one side of a command into the cut list
+const patch = (cuts: CutEvent[], remove: CutEvent[], add: CutEvent[]): CutEvent[] => {
+  const touched = new Set([...remove, ...add].map(c => c.id));
+  return cuts
+    .filter(c => !touched.has(c.id))
+    .concat(add)
+    .sort((a, b) => a.start - b.start);
+};
+
+export const undoCommand = (cuts: CutEvent[], command: CutCommand): CutEvent[] =>
+  patch(cuts, command.after, command.before);
+
+export const redoCommand = (cuts: CutEvent[], command: CutCommand): CutEvent[] =>
+  patch(cuts, command.before, command.after);
+
+export const pushCommand = (history: CutHistory, command: CutCommand): CutHistory => ({
+  past: [...history.past, command].slice(-MAX_HISTORY),
+  future: []
+});
+
+/**
+ * Moves through the history until exactly `position` commands are applied,
+ * undoing or redoing as many steps as needed.
+ */
+export const travelTo = (
+  cuts: CutEvent[],
+  history: CutHistory,
+  position: number
+): { cuts: CutEvent[]; history: CutHistory } => {
+  let { past, future } = history;
+  let current = cuts;
+  const target = Math.max(0, Math.min(position, past.length + future.length));
+
+  while (past.length > target) {
+    const command = past[past.length - 1];
+    current = undoCommand(current, command);
+    past = past.slice(0, -1);
+    future = [command, ...future];
+  }
+  while (past.length < target) {
+    const [command, ...rest] = future;
+    current = redoCommand(current, command);
+    past = [...past, command];
+    future = rest;
+  }
+  return { cuts: current, history: { past, future } };
+};
@@ -0,0 +1,304 @@
+import { createPartFromUri, createUserContent, GoogleGenAI } from "@google/genai";
+import { LlmProviderId, LlmSettings } from "../types";
+
+// The subset of JSON Schema the AI features use for structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+// A file already uploaded through the provider's own file API
+export interface LlmFile {
+  uri: string;
+  mimeType: string;
+}
+
+export interface LlmRequest {
+  feature: string; // what the call is for, e.g. 'report'; usage is counted per feature
+  prompt: string;
+  files?: LlmFile[]; // sent ahead of the prompt; only Gemini accepts them
+  schema?: JsonSchema; // asks for JSON matching this schema instead of free text
+  timeoutSeconds?: number; // per attempt; overrides the configured timeout for long inputs
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A text-generation backend. Implementations make one attempt; timeouts,
+ * retries and usage accounting are layered on by `createLlmClient`.
+ */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete: (request: LlmRequest, signal: AbortSignal) => Promise<{ text: string; usage: TokenUsage }>;
+}
+
+// Failed calls carry the HTTP status, when there was a response, to decide on retries
+const llmError = (message: string, status?: number) => Object.assign(new Error(message), { status });
+
+export const DEFAULT_LLM_MODELS: Record<LlmProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  stub: 'stub'
+};
+
+// Gemini falls back to the rule-based paths when no API key is set
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  geminiModel: DEFAULT_LLM_MODELS.gemini,
+  openaiEndpoint: 'http://localhost:11434',
+  openaiModel: DEFAULT_LLM_MODELS.openai,
+  openaiApiKey: '',
+  timeoutSeconds: 60,
+  maxRetries: 2
+};
+
+// Rough token count for backends that do not report one
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * The Gemini SDK client, or null without an API key. Set GEMINI_BASE_URL to
+ * point it at another endpoint, such as the local mock server.
+ */
+export const getGeminiClient = (): GoogleGenAI | null => {
+  if (!process.env.API_KEY) return null;
+  return new GoogleGenAI({
+    apiKey: process.env.API_KEY,
+    ...(process.env.GEMINI_BASE_URL && { httpOptions: { baseUrl: process.env.GEMINI_BASE_URL } })
+  });
+};
+
+export const createGeminiLlmProvider = (ai: GoogleGenAI, model: string): LlmProvider => ({
+  name: 'Gemini',
+  model,
+  complete: async (request, signal) => {
+    // SDK errors already carry the HTTP status
+    const response = await ai.models.generateContent({
+      model,
+      contents: request.files?.length
+        ? createUserContent([...request.files.map(f => createPartFromUri(f.uri, f.mimeType)), request.prompt])
+        : request.prompt,
+      config: {
+        abortSignal: signal,
+        ...(request.schema && { responseMimeType: 'application/json', responseJsonSchema: request.schema })
+      }
+    });
+    const text = response.text ?? '';
+    return {
+      text,
+      usage: {
+        inputTokens: response.usageMetadata?.promptTokenCount ?? estimateTokens(request.prompt),
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? estimateTokens(text)
+      }
+    };
+  }
+});
+
+/**
+ * Talks to any server implementing OpenAI's `/v1/chat/completions`
+ * (Ollama, llama.cpp server, vLLM, LocalAI, ...).
+ */
+export const createOpenAiLlmProvider = (endpoint: string, model: string, apiKey: string): LlmProvider => ({
+  name: 'OpenAI-compatible',
+  model,
+  complete: async (request, signal) => {
+    if (request.files?.length) throw llmError(`${endpoint} cannot be sent files`, 400);
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/v1/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(request.schema && {
+          response_format: { type: 'json_schema', json_schema: { name: request.feature, schema: request.schema } }
+        })
+      }),
+      signal
+    });
+    if (!response.ok) {
+      throw llmError(`${endpoint} responded ${response.status}: ${(await response.text()).slice(0, 200)}`, response.status);
+    }
+    const body = await response.json();
+    const text = typeof body.choices?.[0]?.message?.content === 'string' ? body.choices[0].message.content : '';
+    return {
+      text,
+      usage: {
+        inputTokens: Number(body.usage?.prompt_tokens) || estimateTokens(request.prompt),
+        outputTokens: Number(body.usage?.completion_tokens) || estimateTokens(text)
+      }
+    };
+  }
+});
+
+// The smallest value a schema allows: empty strings and lists, zeros, false
+const minimalValue = (schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries((schema.required ?? []).map(key => [key, minimalValue(schema.properties![key])]));
+    case 'array': return [];
+    case 'string': return schema.enum?.[0] ?? '';
+    case 'integer':
+    case 'number': return 0;
+    case 'boolean': return false;
+  }
+};
+
+/**
+ * Answers without any model: a fixed sentence for text, and the minimal valid
+ * value for structured requests (so semantic detection adds no cuts). For
+ * offline and reproducible runs.
+ */
+export const createStubLlmProvider = (): LlmProvider => ({
+  name: 'Stub',
+  model: 'stub',
+  complete: async request => {
+    const text = request.schema
+      ? JSON.stringify(minimalValue(request.schema))
+      : "Your edit is complete. The pacing is tighter and the message comes through more clearly.";
+    return { text, usage: { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(text) } };
+  }
+});
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider | null => {
+  switch (settings.provider) {
+    case 'gemini': {
+      const ai = getGeminiClient();
+      return ai ? createGeminiLlmProvider(ai, settings.geminiModel || DEFAULT_LLM_MODELS.gemini) : null;
+    }
+    case 'openai': return createOpenAiLlmProvider(settings.openaiEndpoint, settings.openaiModel || DEFAULT_LLM_MODELS.openai, settings.openaiApiKey);
+    case 'stub': return createStubLlmProvider();
+  }
+};
+
+/** Whether `url` points at this machine, so requests to it stay on the device. */
+export const isLoopbackUrl = (url: string): boolean => {
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+/** Whether language model requests with these settings stay on this device. */
+export const llmStaysOnDevice = (settings: LlmSettings): boolean => {
+  switch (settings.provider) {
+    case 'gemini': return !process.env.API_KEY; // without a key nothing is sent
+    case 'openai': return isLoopbackUrl(settings.openaiEndpoint);
+    case 'stub': return true;
+  }
+};
+
+export interface LlmUsage extends TokenUsage {
+  requests: number;
+  failures: number;
+}
+
+// Usage for this session, per feature
+const usageLedger = new Map<string, LlmUsage>();
+
+const recordUsage = (feature: string, usage: TokenUsage | null) => {
+  const entry = usageLedger.get(feature) ?? { requests: 0, failures: 0, inputTokens: 0, outputTokens: 0 };
+  usageLedger.set(feature, {
+    requests: entry.requests + 1,
+    failures: entry.failures + (usage ? 0 : 1),
+    inputTokens: entry.inputTokens + (usage?.inputTokens ?? 0),
+    outputTokens: entry.outputTokens + (usage?.outputTokens ?? 0)
+  });
+};
+
+/** Token usage so far this session, per feature. */
+export const getLlmUsage = (): Record<string, LlmUsage> => Object.fromEntries(usageLedger);
+
+export const totalLlmUsage = (): LlmUsage =>
+  [...usageLedger.values()].reduce(
+    (sum, u) => ({
+      requests: sum.requests + u.requests,
+      failures: sum.failures + u.failures,
+      inputTokens: sum.inputTokens + u.inputTokens,
+      outputTokens: sum.outputTokens + u.outputTokens
+    }),
+    { requests: 0, failures: 0, inputTokens: 0, outputTokens: 0 }
+  );
+
+// Timeouts, network failures, rate limits and server errors are worth another try; bad requests are not
+const isRetryable = (error: unknown) => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status !== 'number' || status === 429 || status >= 500;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+export interface LlmClient {
+  name: string;
+  model: string;
+  /** Returns the model's text, retrying timeouts, rate limits and server errors. */
+  generate: (request: LlmRequest) => Promise<string>;
+}
+
+/**
+ * Wraps the configured provider with a per-attempt timeout, retries with
+ * exponential backoff and usage accounting. Returns null when the provider
+ * cannot be used (Gemini without an API key), so callers can fall back.
+ */
+export const createLlmClient = (settings: LlmSettings): LlmClient | null => {
+  const provider = createLlmProvider(settings);
+  if (!provider) return null;
+
+  const attempt = async (request: LlmRequest) => {
+    const controller = new AbortController();
+    const timeoutSeconds = request.timeoutSeconds ?? settings.timeoutSeconds;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutSeconds * 1000);
+    const forwardAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', forwardAbort, { once: true });
+    if (request.signal?.aborted) controller.abort();
+    try {
+      return await provider.complete(request, controller.signal);
+    } catch (error) {
+      if (timedOut) throw llmError(`${provider.name} did not answer within ${timeoutSeconds}s`);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', forwardAbort);
+    }
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate: async request => {
+      for (let retry = 0; ; retry++) {
+        try {
+          const { text, usage } = await attempt(request);
+          recordUsage(request.feature, usage);
+          return text;
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          recordUsage(request.feature, null);
+          if (retry >= settings.maxRetries || !isRetryable(error)) throw error;
+          console.warn(`${provider.name} request failed, retrying`, error);
+          await wait(500 * 2 ** retry, request.signal);
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { dedupePhrases, exportPhraseListsCsv, exportPhraseListsJson, parsePhraseListFile } from "./phraseListService";
+
+describe("dedupePhrases", () => {
+  it("trims, collapses whitespace and keeps the first spelling of each phrase", () => {
+    expect(dedupePhrases(['  Praise  God ', 'praise god', '', 'Amen', 'AMEN', '   '])).toEqual(['Praise God', 'Amen']);
+  });
+});
+
+describe("parsePhraseListFile from CSV", () => {
+  it("groups rows by the list column", () => {
+    const csv = 'list,phrase\nChurch,Amen\nChurch,Praise God\nOffice,synergy\n';
+    expect(parsePhraseListFile(csv, 'lists.csv')).toEqual([
+      { name: 'Church', phrases: ['Amen', 'Praise God'] },
+      { name: 'Office', phrases: ['synergy'] }
+    ]);
+  });
+
+  it("accepts the columns in any order and case", () => {
+    expect(parsePhraseListFile('Phrase,List\nAmen,Church\n', 'x.csv')).toEqual([{ name: 'Church', phrases: ['Amen'] }]);
+  });
+
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    const csv = 'list,phrase\r\n"Sayings, misc","he said ""well"""\r\nSayings misc,"line one\nline two"\r\n';
+    expect(parsePhraseListFile(csv, 'x.csv')).toEqual([
+      { name: 'Sayings, misc', phrases: ['he said "well"'] },
+      { name: 'Sayings misc', phrases: ['line one line two'] }
+    ]);
+  });
+
+  it("imports a single column as one list named after the file", () => {
+    expect(parsePhraseListFile('phrase\nAmen\nHallelujah\n', 'Sunday service.csv')).toEqual([
+      { name: 'Sunday service', phrases: ['Amen', 'Hallelujah'] }
+    ]);
+    expect(parsePhraseListFile('\uFEFFAmen\nHallelujah', 'words.txt')).toEqual([{ name: 'words', phrases: ['Amen', 'Hallelujah'] }]);
+  });
+
+  it("puts rows without a list name under the file name", () => {
+    expect(parsePhraseListFile('list,phrase\n,Amen\n', 'mine.csv')).toEqual([{ name: 'mine', phrases: ['Amen'] }]);
+  });
+
+  it("skips blank lines and drops lists that end up empty", () => {
+    expect(parsePhraseListFile('list,phrase\n\nEmpty,  \nReal,Amen\n\n', 'x.csv')).toEqual([{ name: 'Real', phrases: ['Amen'] }]);
+  });
+
+  it("reads back what it exports", () => {
+    const lists = [{ id: '1', name: 'A, "quoted"', phrases: ['one, two', 'three'] }, { id: '2', name: 'B', phrases: ['four'] }];
+    expect(parsePhraseListFile(exportPhraseListsCsv(lists), 'x.csv')).toEqual(lists.map(({ name, phrases }) => ({ name, phrases })));
+  });
+});
+
+describe("parsePhraseListFile from JSON", () => {
+  it("reads the exported format", () => {
+    const lists = [{ id: '1', name: 'Church', phrases: ['Amen'], updatedAt: 1 }];
+    expect(parsePhraseListFile(exportPhraseListsJson(lists), 'x.json')).toEqual([{ name: 'Church', phrases: ['Amen'] }]);
+  });
+
+  it("reads a bare array of phrases as one list", () => {
+    expect(parsePhraseListFile('["Amen", "amen ", "Hallelujah"]', 'fillers.json')).toEqual([{ name: 'fillers', phrases: ['Amen', 'Hallelujah'] }]);
+  });
+
+  it("rejects lists without phrases", () => {
+    expect(() => parsePhraseListFile('{"lists": [{"name": "x"}]}', 'x.json')).toThrow('List 1 has no "phrases" array');
+  });
+});
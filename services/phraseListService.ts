@@ -0,0 +1,182 @@
+import { PhraseList } from "../types";
+import { deleteOne, getAll, putOne } from "./db";
+
+// Starter lists written the first time the app runs. Deleting them afterwards is permanent.
+const DEFAULT_LISTS: PhraseList[] = [
+  {
+    id: 'default-1',
+    name: 'Church Service',
+    phrases: [
+      'Hallelujah',
+      'Amen',
+      'Praise God',
+      'Blessing',
+      'Scripture',
+      'Glory to Jesus',
+      'Glory to God',
+      'Praise the Lord',
+      'Thank you Lord',
+      'Thank you Father'
+    ]
+  },
+  {
+    id: 'default-2',
+    name: 'Corporate Meeting',
+    phrases: ['Touch base', 'Circle back', 'Synergy', 'Deep dive', 'Offline']
+  },
+  {
+    id: 'default-3',
+    name: 'Gen Z Slang',
+    phrases: ['Literally', 'No cap', 'Vibe', 'Bet', 'Lowkey']
+  }
+];
+
+const SEEDED_KEY = 'claritycut.phraseListsSeeded';
+
+/**
+ * Trims phrases, collapses inner whitespace and drops empty entries and
+ * case-insensitive duplicates, keeping the first spelling seen.
+ */
+export const dedupePhrases = (phrases: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of phrases) {
+    const phrase = raw.trim().replace(/\s+/g, ' ');
+    const key = phrase.toLowerCase();
+    if (!phrase || seen.has(key)) continue;
+    seen.add(key);
+    result.push(phrase);
+  }
+  return result;
+};
+
+const newListId = () => `list-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listPhraseLists = async (): Promise<PhraseList[]> => {
+  const lists = await getAll<PhraseList>('phraseLists');
+  if (lists.length === 0 && !localStorage.getItem(SEEDED_KEY)) {
+    await Promise.all(DEFAULT_LISTS.map(list => putOne('phraseLists', list)));
+    localStorage.setItem(SEEDED_KEY, '1');
+    return DEFAULT_LISTS;
+  }
+  localStorage.setItem(SEEDED_KEY, '1');
+  return lists.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createPhraseList = async (name: string, phrases: string[]): Promise<PhraseList> => {
+  const list: PhraseList = { id: newListId(), name: name.trim(), phrases: dedupePhrases(phrases), updatedAt: Date.now() };
+  await putOne('phraseLists', list);
+  return list;
+};
+
+export const savePhraseList = async (list: PhraseList): Promise<PhraseList> => {
+  const saved = { ...list, name: list.name.trim(), phrases: dedupePhrases(list.phrases), updatedAt: Date.now() };
+  await putOne('phraseLists', saved);
+  return saved;
+};
+
+export const deletePhraseList = (id: string): Promise<void> => deleteOne('phraseLists', id);
+
+/**
+ * Combines several lists into a new one. The source lists are kept.
+ */
+export const mergePhraseLists = (lists: PhraseList[], name: string): Promise<PhraseList> =>
+  createPhraseList(name, lists.flatMap(l => l.phrases));
+
+// --- Import / export ---
+//
+// JSON: { "version": 1, "lists": [{ "name": "...", "phrases": ["..."] }] }
+// CSV:  a `list,phrase` header followed by one row per phrase. A CSV with a
+//       single column is read as phrases for one list named after the file.
+
+export const exportPhraseListsJson = (lists: PhraseList[]): string =>
+  JSON.stringify({ version: 1, lists: lists.map(({ name, phrases }) => ({ name, phrases })) }, null, 2);
+
+const csvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportPhraseListsCsv = (lists: PhraseList[]): string =>
+  ['list,phrase', ...lists.flatMap(l => l.phrases.map(p => `${csvField(l.name)},${csvField(p)}`))].join('\n') + '\n';
+
+// RFC 4180 parser: quoted fields may contain commas, doubled quotes and newlines.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim()));
+};
+
+type ImportedList = Pick<PhraseList, 'name' | 'phrases'>;
+
+const fromJson = (text: string, fallbackName: string): ImportedList[] => {
+  const data = JSON.parse(text);
+  const raw: unknown[] = Array.isArray(data)
+    ? (data.every(item => typeof item === 'string') ? [{ name: fallbackName, phrases: data }] : data)
+    : Array.isArray(data?.lists) ? data.lists : [data];
+  return raw.map((item, i) => {
+    const entry = item as Partial<ImportedList>;
+    if (!Array.isArray(entry?.phrases)) throw new Error(`List ${i + 1} has no "phrases" array`);
+    return {
+      name: typeof entry.name === 'string' && entry.name.trim() ? entry.name : fallbackName,
+      phrases: entry.phrases.filter((p): p is string => typeof p === 'string')
+    };
+  });
+};
+
+const fromCsv = (text: string, fallbackName: string): ImportedList[] => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const listCol = header.indexOf('list');
+  const phraseCol = header.indexOf('phrase');
+
+  if (listCol === -1 || phraseCol === -1) {
+    const body = header[0] === 'phrase' ? rows.slice(1) : rows;
+    return [{ name: fallbackName, phrases: body.map(r => r[0]) }];
+  }
+
+  const byName = new Map<string, string[]>();
+  for (const row of rows.slice(1)) {
+    const name = row[listCol]?.trim() || fallbackName;
+    if (!byName.has(name)) byName.set(name, []);
+    byName.get(name)!.push(row[phraseCol] ?? '');
+  }
+  return [...byName].map(([name, phrases]) => ({ name, phrases }));
+};
+
+/**
+ * Reads phrase lists from an exported JSON or CSV file. Throws when the file
+ * cannot be understood; lists that end up empty are dropped.
+ */
+export const parsePhraseListFile = (text: string, fileName: string): ImportedList[] => {
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || 'Imported list';
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  return (isJson ? fromJson(text, fallbackName) : fromCsv(text, fallbackName))
+    .map(list => ({ name: list.name.trim(), phrases: dedupePhrases(list.phrases) }))
+    .filter(list => list.phrases.length > 0);
+};
@@ -0,0 +1,99 @@
+import { Segment } from "./cutListService";
+
+/**
+ * Shapes the review player's audio around the jumps it makes over removed
+ * ranges. A single media element cannot overlap two points in time, so the
+ * render's crossfade is approximated by an equal-power dip: fade out into the
+ * join, seek, and fade back in once the seek lands.
+ */
+export interface PreviewAudio {
+  /** Fades out so the audio is silent when playback reaches `join`, `secondsUntil` from now. */
+  approach: (join: Segment, secondsUntil: number, fade: number) => void;
+  /** Call just before seeking over a removed range; optionally bridges the seek with room tone. */
+  jump: (fade: number, bridge?: { buffer: AudioBuffer; tone: Segment }) => void;
+  /** Restores full volume after a fade that no jump followed, e.g. a manual seek. */
+  settle: (fade: number) => void;
+  close: () => void;
+}
+
+// Equal-power ramp: sine going up, cosine going down
+const rampCurve = (from: number, to: number, steps = 64): Float32Array => {
+  const curve = new Float32Array(steps);
+  for (let i = 0; i < steps; i++) {
+    const t = i / (steps - 1);
+    curve[i] = to > from
+      ? from + (to - from) * Math.sin((t * Math.PI) / 2)
+      : to + (from - to) * Math.cos((t * Math.PI) / 2);
+  }
+  return curve;
+};
+
+// Rises and falls with equal-power halves, for a room-tone bridge
+const bridgeCurve = (steps = 64): Float32Array =>
+  Float32Array.from({ length: steps }, (_, i) => Math.sin((i / (steps - 1)) * Math.PI));
+
+/**
+ * Routes `video` through Web Audio. Must be called from a user gesture so the
+ * context is allowed to start; an element can only ever be routed once.
+ */
+export const createPreviewAudio = (video: HTMLVideoElement): PreviewAudio => {
+  const context = new AudioContext();
+  const gain = context.createGain();
+  context.createMediaElementSource(video).connect(gain).connect(context.destination);
+  void context.resume();
+
+  let approaching: Segment | null = null;
+  let jumping = false;
+  let faded = false;
+
+  const rampTo = (to: number, delay: number, length: number) => {
+    const param = gain.gain;
+    const now = context.currentTime;
+    const from = param.value;
+    param.cancelScheduledValues(0);
+    param.setValueAtTime(from, now);
+    param.setValueCurveAtTime(rampCurve(from, to), now + Math.max(0, delay), Math.max(0.001, length));
+  };
+
+  return {
+    approach: (join, secondsUntil, fade) => {
+      if (jumping || approaching === join) return;
+      approaching = join;
+      faded = true;
+      const start = Math.max(0, secondsUntil - fade / 2);
+      rampTo(0, start, secondsUntil - start);
+    },
+
+    jump: (fade, bridge) => {
+      approaching = null;
+      faded = true;
+      if (!jumping) rampTo(0, 0, 0.003);
+      jumping = true;
+      if (bridge) {
+        const length = bridge.tone.end - bridge.tone.start;
+        const source = context.createBufferSource();
+        const envelope = context.createGain();
+        source.buffer = bridge.buffer;
+        envelope.gain.setValueCurveAtTime(bridgeCurve(), context.currentTime, length);
+        source.connect(envelope).connect(context.destination);
+        source.start(context.currentTime, bridge.tone.start, length);
+      }
+      video.addEventListener('seeked', () => {
+        jumping = false;
+        faded = false;
+        rampTo(1, 0, fade / 2);
+      }, { once: true });
+    },
+
+    settle: (fade) => {
+      if (!faded || jumping) return;
+      approaching = null;
+      faded = false;
+      rampTo(1, 0, fade / 2);
+    },
+
+    close: () => {
+      void context.close();
+    }
+  };
+};
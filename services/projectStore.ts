@@ -0,0 +1,127 @@
+import { ProjectRecord, ProjectSummary } from "../types";
+import { deleteOne, getAll, getOne, putOne, updateOne } from "./db";
+
+// Source videos are copied into the Origin Private File System, which handles
+// multi-gigabyte files far better than IndexedDB. Browsers without OPFS fall
+// back to storing the Blob on the project record itself.
+const MEDIA_DIR = 'projects';
+
+const getMediaDir = async (): Promise<FileSystemDirectoryHandle | null> => {
+  if (!navigator.storage?.getDirectory) return null;
+  try {
+    const root = await navigator.storage.getDirectory();
+    return await root.getDirectoryHandle(MEDIA_DIR, { create: true });
+  } catch {
+    return null;
+  }
+};
+
+// False when the copy could not be written (no OPFS, no createWritable on the main
+// thread as in Safari, or out of quota), so the caller stores the Blob instead
+const writeMedia = async (id: string, media: Blob): Promise<boolean> => {
+  const dir = await getMediaDir();
+  if (!dir) return false;
+  try {
+    const handle = await dir.getFileHandle(id, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(media);
+    await writable.close();
+    return true;
+  } catch (error) {
+    console.warn("Could not copy the video into private storage; keeping it on the project record", error);
+    await dir.removeEntry(id).catch(() => undefined);
+    return false;
+  }
+};
+
+const toSummary = (record: ProjectRecord): ProjectSummary => ({
+  id: record.id,
+  name: record.name,
+  fileName: record.fileName,
+  fileSize: record.fileSize,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  cutsCount: record.cuts.length,
+});
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await getAll<ProjectRecord>('projects');
+  return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Creates a project and stores a private copy of its source video.
+ */
+export const createProject = async (
+  file: File,
+  state: Omit<ProjectRecord, 'id' | 'name' | 'fileName' | 'fileSize' | 'fileType' | 'createdAt' | 'updatedAt' | 'cutsCount' | 'media'>
+): Promise<ProjectRecord> => {
+  const now = Date.now();
+  const id = `project-${now}`;
+  const record: ProjectRecord = {
+    ...state,
+    id,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    fileName: file.name,
+    fileSize: file.size,
+    fileType: file.type,
+    createdAt: now,
+    updatedAt: now,
+    cutsCount: state.cuts.length,
+  };
+  if (!(await writeMedia(id, file))) record.media = file;
+  await putOne('projects', record);
+  return record;
+};
+
+/**
+ * Saves session state onto an existing project. The stored media is left untouched.
+ */
+export const updateProject = async (
+  id: string,
+  patch: Partial<Pick<ProjectRecord, 'phase' | 'playhead' | 'config' | 'cuts' | 'transcript' | 'history' | 'originalDuration' | 'name'>>
+): Promise<void> => {
+  await updateOne<ProjectRecord>('projects', id, existing => {
+    const next = { ...existing, ...patch, updatedAt: Date.now() };
+    return { ...next, cutsCount: next.cuts.length };
+  });
+};
+
+/**
+ * Loads a project together with its source video as a File.
+ */
+export const openProject = async (id: string): Promise<{ record: ProjectRecord; file: File }> => {
+  const record = await getOne<ProjectRecord>('projects', id);
+  if (!record) throw new Error("Project not found");
+
+  let media: Blob | undefined = record.media;
+  if (!media) {
+    const dir = await getMediaDir();
+    media = dir ? await (await dir.getFileHandle(id)).getFile() : undefined;
+  }
+  if (!media) throw new Error("The project's video is no longer stored in this browser");
+
+  return { record, file: new File([media], record.fileName, { type: record.fileType }) };
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const { record, file } = await openProject(id);
+  const now = Date.now();
+  const copy: ProjectRecord = {
+    ...record,
+    id: `project-${now}`,
+    name: `${record.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    media: undefined,
+  };
+  if (!(await writeMedia(copy.id, file))) copy.media = file;
+  await putOne('projects', copy);
+  return toSummary(copy);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await deleteOne('projects', id);
+  const dir = await getMediaDir();
+  await dir?.removeEntry(id).catch(() => undefined);
+};
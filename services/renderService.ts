@@ -0,0 +1,172 @@
+import { AudioJoinSettings, CutEvent, CutNormalization, OutputFormat, OutputQuality } from "../types";
+import { computeKeptSegments, normalizeCuts, Segment } from "./cutListService";
+import { AudioJoin, crossfadeSeconds, pickRoomTone, planAudioJoins } from "./audioJoinService";
+import { getFFmpeg, hasAudioStream, mountFile, terminateFFmpeg } from "./ffmpegService";
+
+export type RenderStage = 'loading' | 'reading' | 'encoding' | 'finalizing';
+
+export interface RenderProgress {
+  stage: RenderStage;
+  progress: number; // 0-1 within the stage
+}
+
+// Codec choices per container. Everything here ships in the default ffmpeg.wasm core.
+const CODECS: Record<OutputFormat, { video: string[]; audio: string[]; mime: string }> = {
+  mp4: { video: ['-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '20', '-pix_fmt', 'yuv420p'], audio: ['-c:a', 'aac', '-b:a', '192k'], mime: 'video/mp4' },
+  mov: { video: ['-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '20', '-pix_fmt', 'yuv420p'], audio: ['-c:a', 'aac', '-b:a', '192k'], mime: 'video/quicktime' },
+  mkv: { video: ['-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '20', '-pix_fmt', 'yuv420p'], audio: ['-c:a', 'aac', '-b:a', '192k'], mime: 'video/x-matroska' },
+  avi: { video: ['-c:v', 'mpeg4', '-q:v', '3'], audio: ['-c:a', 'libmp3lame', '-b:a', '192k'], mime: 'video/x-msvideo' },
+};
+
+const SCALE_HEIGHT: Record<OutputQuality, number | null> = {
+  original: null,
+  '4k': 2160,
+  '1080p': 1080,
+  '720p': 720,
+  '480p': 480,
+};
+
+const fmt = (seconds: number) => seconds.toFixed(3);
+
+/**
+ * Joins the kept audio with equal-power crossfades. Each piece is extended by
+ * half a crossfade into the removed range on both sides, so the overlaps cancel
+ * out and the audio stays exactly as long as the concatenated video. Room-tone
+ * bridges replace that overlap with a piece of room tone two crossfades long.
+ */
+const buildAudioGraph = (segments: Segment[], joins: AudioJoin[], roomTone: Segment | null): string[] => {
+  const parts: string[] = [];
+  segments.forEach((s, i) => {
+    const before = i > 0 && !joins[i - 1].roomTone ? joins[i - 1].crossfade / 2 : 0;
+    const after = i < joins.length && !joins[i].roomTone ? joins[i].crossfade / 2 : 0;
+    parts.push(`[0:a]atrim=start=${fmt(s.start - before)}:end=${fmt(s.end + after)},asetpts=PTS-STARTPTS[a${i}]`);
+  });
+
+  const bridges = joins.filter(j => j.roomTone).length;
+  if (roomTone && bridges > 0) {
+    const outputs = Array.from({ length: bridges }, (_, k) => `[rt${k}]`).join('');
+    parts.push(`[0:a]atrim=start=${fmt(roomTone.start)}:end=${fmt(roomTone.end)},asetpts=PTS-STARTPTS,asplit=${bridges}${outputs}`);
+  }
+
+  if (joins.length === 0) {
+    parts.push('[a0]anull[outa]');
+    return parts;
+  }
+
+  let current = '[a0]';
+  let bridge = 0;
+  joins.forEach((join, i) => {
+    const label = i === joins.length - 1 ? '[outa]' : `[x${i}]`;
+    const fade = `acrossfade=d=${fmt(join.crossfade)}:c1=qsin:c2=qsin`;
+    if (join.roomTone && roomTone) {
+      // Trim the shared room tone to exactly two crossfades so the bridge adds no length
+      parts.push(`[rt${bridge}]atrim=end=${fmt(join.crossfade * 2)}[rb${bridge}]`);
+      parts.push(`${current}[rb${bridge}]${fade}[t${i}]`);
+      current = `[t${i}]`;
+      bridge++;
+    }
+    parts.push(`${current}[a${i + 1}]${fade}${label}`);
+    current = label;
+  });
+  return parts;
+};
+
+const buildFilterGraph = (
+  segments: Segment[],
+  quality: OutputQuality,
+  audio: { joins: AudioJoin[]; roomTone: Segment | null } | null
+): string => {
+  const height = SCALE_HEIGHT[quality];
+  const scale = height ? `,scale=-2:${height}` : '';
+  const parts: string[] = [];
+  let concatInputs = '';
+
+  segments.forEach((s, i) => {
+    parts.push(`[0:v]trim=start=${fmt(s.start)}:end=${fmt(s.end)},setpts=PTS-STARTPTS${scale}[v${i}]`);
+    concatInputs += `[v${i}]`;
+  });
+  parts.push(`${concatInputs}concat=n=${segments.length}:v=1:a=0[outv]`);
+
+  if (audio) parts.push(...buildAudioGraph(segments, audio.joins, audio.roomTone));
+  return parts.join(';');
+};
+
+/**
+ * Renders the edited video entirely in the browser: the kept segments are
+ * trimmed from the source and concatenated into a fresh container of the
+ * requested format. Nothing leaves the machine.
+ */
+export const renderVideo = async (
+  file: File,
+  cuts: CutEvent[],
+  duration: number,
+  normalization: CutNormalization,
+  audioJoins: AudioJoinSettings,
+  format: OutputFormat,
+  quality: OutputQuality,
+  onProgress?: (p: RenderProgress) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const segments = computeKeptSegments(cuts, duration, normalization);
+  if (segments.length === 0) {
+    throw new Error("Every part of the video is marked for removal. Nothing to render.");
+  }
+  const roomTone = audioJoins.roomTone ? pickRoomTone(cuts, crossfadeSeconds(audioJoins) * 2) : null;
+  const joins = planAudioJoins(segments, normalizeCuts(cuts, duration, normalization), audioJoins, roomTone !== null);
+
+  onProgress?.({ stage: 'loading', progress: 0 });
+  const ffmpeg = await getFFmpeg();
+  if (signal?.aborted) throw new DOMException("Render cancelled", 'AbortError');
+
+  // Cancelling tears the worker down; the next render loads a fresh instance.
+  const handleAbort = () => terminateFFmpeg(ffmpeg);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+
+  const inputExt = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : 'mp4';
+  const outputName = `output.${format}`;
+  const codecs = CODECS[format];
+
+  const handleProgress = ({ progress }: { progress: number }) => {
+    onProgress?.({ stage: 'encoding', progress: Math.max(0, Math.min(1, progress)) });
+  };
+  ffmpeg.on('progress', handleProgress);
+
+  const run = (inputPath: string, withAudio: boolean) => ffmpeg.exec([
+    '-i', inputPath,
+    '-filter_complex', buildFilterGraph(segments, quality, withAudio ? { joins, roomTone } : null),
+    '-map', '[outv]',
+    ...(withAudio ? ['-map', '[outa]'] : []),
+    ...codecs.video,
+    ...(withAudio ? codecs.audio : []),
+    ...(format === 'mp4' || format === 'mov' ? ['-movflags', '+faststart'] : []),
+    '-y', outputName,
+  ]);
+
+  let unmount: (() => Promise<void>) | null = null;
+  try {
+    onProgress?.({ stage: 'reading', progress: 0 });
+    const input = await mountFile(ffmpeg, file, `input.${inputExt}`);
+    unmount = input.unmount;
+
+    // Sources without an audio track would fail on [0:a], so they render video-only.
+    // Any other failure, including in the audio joins, is reported rather than dropping the sound.
+    const exitCode = await run(input.path, await hasAudioStream(ffmpeg, input.path));
+    if (exitCode !== 0) {
+      throw new Error(`Encoder exited with code ${exitCode}`);
+    }
+
+    onProgress?.({ stage: 'finalizing', progress: 0 });
+    const data = await ffmpeg.readFile(outputName);
+    if (typeof data === 'string') {
+      throw new Error("Unexpected text output from encoder");
+    }
+    return new Blob([data], { type: codecs.mime });
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    ffmpeg.off('progress', handleProgress);
+    if (!signal?.aborted) {
+      await unmount?.();
+      await ffmpeg.deleteFile(outputName).catch(() => undefined);
+    }
+  }
+};
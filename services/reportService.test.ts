@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { CutEvent, CutType, TranscriptWord } from "../types";
+import { DEFAULT_NORMALIZATION } from "./cutListService";
+import { buildEditingReport, normalizePhrase } from "./reportService";
+
+const cut = (id: string, type: CutType, start: number, end: number, extra: Partial<CutEvent> = {}): CutEvent =>
+  ({ id, type, start, end, confidence: 0.9, status: 'accepted', ...extra });
+
+const normalization = { ...DEFAULT_NORMALIZATION, mergeGap: 0, minKeptSegment: 0 };
+const sumSeconds = (report: ReturnType<typeof buildEditingReport>) => report.byType.reduce((sum, t) => sum + t.seconds, 0);
+
+describe("normalizePhrase", () => {
+  it("lowercases, strips punctuation and collapses whitespace", () => {
+    expect(normalizePhrase('  Um,  YOU know... ')).toBe('um you know');
+    expect(normalizePhrase("Don't")).toBe("don't");
+  });
+});
+
+describe("buildEditingReport", () => {
+  it("counts only accepted cuts", () => {
+    const report = buildEditingReport([cut('a', 'filler', 1, 2), cut('b', 'filler', 3, 4, { status: 'rejected' })], null, 60, normalization);
+    expect(report.byType).toEqual([{ type: 'filler', count: 1, seconds: 1 }]);
+    expect(report.timeSaved).toBe(1);
+    expect(report.finalDuration).toBe(59);
+  });
+
+  it("splits overlapping cuts' time so the types add up to the time saved", () => {
+    const report = buildEditingReport([cut('a', 'filler', 1, 2), cut('b', 'cliche', 1.5, 3)], null, 60, normalization);
+    expect(report.timeSaved).toBe(2);
+    expect(sumSeconds(report)).toBeCloseTo(2);
+    // 0.5 s is shared: filler covers 1 s of the range and the cliché 1.5 s
+    const seconds = Object.fromEntries(report.byType.map(t => [t.type, t.seconds]));
+    expect(seconds.filler).toBeCloseTo(0.8);
+    expect(seconds.cliche).toBeCloseTo(1.2);
+  });
+
+  it("shares merged gaps and shortened pauses between the types too", () => {
+    const silence = { mode: 'shorten' as const, keepSeconds: 0.4, keepRatio: 0 };
+    const cuts = [cut('a', 'filler', 1, 2), cut('b', 'stutter', 2.05, 2.5), cut('c', 'silence', 10, 13), cut('d', 'manual', 20, 21)];
+    const report = buildEditingReport(cuts, null, 60, { ...normalization, mergeGap: 0.1, silence });
+    expect(sumSeconds(report)).toBeCloseTo(report.timeSaved);
+    expect(report.byType.find(t => t.type === 'silence')?.seconds).toBeCloseTo(2.6);
+  });
+
+  it("ranks the most repeated phrases", () => {
+    const cuts = [
+      cut('a', 'filler', 1, 2, { word: 'Um,' }),
+      cut('b', 'filler', 3, 4, { word: 'um' }),
+      cut('c', 'cliche', 5, 6, { word: 'At the end of the day' }),
+      cut('d', 'stutter', 7, 8, { word: 'th-' })
+    ];
+    expect(buildEditingReport(cuts, null, 60, normalization).topPhrases).toEqual([
+      { phrase: 'um', type: 'filler', count: 2 },
+      { phrase: 'at the end of the day', type: 'cliche', count: 1 }
+    ]);
+  });
+
+  it("compares speaking rates before and after the edit", () => {
+    const words: TranscriptWord[] = Array.from({ length: 120 }, (_, i) => ({ text: `w${i}`, start: i, end: i + 0.5, confidence: 1 }));
+    const report = buildEditingReport([cut('a', 'filler', 0, 30)], words, 120, normalization);
+    expect(report.wordsPerMinute).toEqual({ before: 60, after: 60 });
+    expect(buildEditingReport([], null, 120, normalization).wordsPerMinute).toBeNull();
+  });
+
+  it("charts filler rate per minute", () => {
+    const cuts = [cut('a', 'filler', 10, 11), cut('b', 'filler', 20, 21), cut('c', 'filler', 70, 71), cut('d', 'cliche', 80, 81)];
+    expect(buildEditingReport(cuts, null, 120, normalization).fillerRate.map(b => b.perMinute)).toEqual([2, 1]);
+  });
+
+  it("lists the longest pauses with what was taken out of them", () => {
+    const silence = { mode: 'shorten' as const, keepSeconds: 0.5, keepRatio: 0 };
+    const cuts = [cut('a', 'silence', 1, 3), cut('b', 'silence', 10, 15, { silenceMode: 'remove' })];
+    expect(buildEditingReport(cuts, null, 60, { ...normalization, silence }).longestPauses).toEqual([
+      { start: 10, seconds: 5, removed: 5 },
+      { start: 1, seconds: 2, removed: 1.5 }
+    ]);
+  });
+});
@@ -0,0 +1,290 @@
+import { CutEvent, CutNormalization, CutType, EditingReport, LlmSettings, ReportPause, ReportPhraseCount, ReportRateBucket, ReportTypeSummary, TranscriptWord } from "../types";
+import { findRemovedRange, isShortenedSilence, keptPause, normalizeCuts, RemovedRange, totalRemoved } from "./cutListService";
+import { createLlmClient } from "./llmService";
+
+export const CUT_TYPE_LABELS: Record<CutType, string> = {
+  filler: 'Filler words',
+  cliche: 'Clichés',
+  stutter: 'Stutters',
+  repetition: 'Repetitions',
+  'false-start': 'False starts',
+  silence: 'Pauses',
+  custom: 'Custom phrases',
+  manual: 'Manual cuts'
+};
+
+// Cut types whose wording is worth counting; stutters and pauses have none to speak of
+const PHRASE_TYPES: CutType[] = ['filler', 'cliche', 'custom', 'repetition'];
+const TOP_PHRASES = 10;
+const LONGEST_PAUSES = 5;
+
+// The filler rate is charted in at most this many buckets of at least a minute each
+const MAX_RATE_BUCKETS = 30;
+
+export const normalizePhrase = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}'\s-]+/gu, '').replace(/\s+/g, ' ').trim();
+
+// Time a cut takes out of the source; shortened pauses keep part of themselves
+const removedSeconds = (cut: CutEvent, normalization: CutNormalization) => {
+  const length = cut.end - cut.start;
+  return isShortenedSilence(cut, normalization.silence) ? length - keptPause(length, normalization.silence) : length;
+};
+
+/**
+ * Accepted cuts and removed time per type. Each removed range is split between
+ * its cuts in proportion to how much of it they cover, so overlaps and merged
+ * gaps are counted once and the types add up to the time saved.
+ */
+const countByType = (cuts: CutEvent[], ranges: RemovedRange[]): ReportTypeSummary[] => {
+  const byId = new Map(cuts.map(c => [c.id, c]));
+  const summaries = new Map<CutType, ReportTypeSummary>();
+  const entryFor = (type: CutType) => {
+    const entry = summaries.get(type) ?? { type, count: 0, seconds: 0 };
+    summaries.set(type, entry);
+    return entry;
+  };
+  for (const cut of cuts) entryFor(cut.type).count++;
+
+  for (const range of ranges) {
+    const members = range.cutIds.map(id => byId.get(id)).filter((c): c is CutEvent => c !== undefined);
+    const overlaps = members.map(c => Math.max(0, Math.min(c.end, range.end) - Math.max(c.start, range.start)));
+    const covered = overlaps.reduce((sum, o) => sum + o, 0);
+    members.forEach((cut, i) => {
+      const share = covered > 0 ? overlaps[i] / covered : 1 / members.length;
+      entryFor(cut.type).seconds += (range.end - range.start) * share;
+    });
+  }
+  return [...summaries.values()].sort((a, b) => b.count - a.count);
+};
+
+const countPhrases = (cuts: CutEvent[]): ReportPhraseCount[] => {
+  const counts = new Map<string, ReportPhraseCount>();
+  for (const cut of cuts) {
+    if (!PHRASE_TYPES.includes(cut.type)) continue;
+    const phrase = normalizePhrase(cut.word ?? cut.phrase ?? '');
+    if (!phrase) continue;
+    const key = `${cut.type}:${phrase}`;
+    const entry = counts.get(key) ?? { phrase, type: cut.type, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.phrase.localeCompare(b.phrase))
+    .slice(0, TOP_PHRASES);
+};
+
+const fillerRate = (cuts: CutEvent[], duration: number): ReportRateBucket[] => {
+  if (duration <= 0) return [];
+  const count = Math.max(1, Math.min(MAX_RATE_BUCKETS, Math.floor(duration / 60)));
+  const size = duration / count;
+  const fillers = new Array<number>(count).fill(0);
+  for (const cut of cuts) {
+    if (cut.type === 'filler') fillers[Math.min(count - 1, Math.floor(cut.start / size))]++;
+  }
+  return fillers.map((n, i) => ({ start: i * size, end: (i + 1) * size, perMinute: n / (size / 60) }));
+};
+
+const longestPauses = (cuts: CutEvent[], normalization: CutNormalization): ReportPause[] =>
+  cuts
+    .filter(c => c.type === 'silence')
+    .map(c => ({ start: c.start, seconds: c.end - c.start, removed: removedSeconds(c, normalization) }))
+    .sort((a, b) => b.seconds - a.seconds)
+    .slice(0, LONGEST_PAUSES);
+
+/**
+ * Everything in the report except the narrative, from the accepted cuts.
+ * Words count as kept when their midpoint survives the edit.
+ */
+export const buildEditingReport = (
+  cuts: CutEvent[],
+  words: TranscriptWord[] | null,
+  duration: number,
+  normalization: CutNormalization
+): EditingReport => {
+  const accepted = cuts.filter(c => c.status === 'accepted');
+  const ranges = normalizeCuts(cuts, duration, normalization);
+  const timeSaved = totalRemoved(ranges);
+  const finalDuration = Math.max(0, duration - timeSaved);
+
+  let wordsPerMinute: EditingReport['wordsPerMinute'] = null;
+  if (words && words.length > 0 && duration > 0) {
+    const kept = words.filter(w => !findRemovedRange(ranges, (w.start + w.end) / 2)).length;
+    wordsPerMinute = {
+      before: words.length / (duration / 60),
+      after: finalDuration > 0 ? kept / (finalDuration / 60) : 0
+    };
+  }
+
+  return {
+    createdAt: Date.now(),
+    originalDuration: duration,
+    finalDuration,
+    timeSaved,
+    byType: countByType(accepted, ranges),
+    topPhrases: countPhrases(accepted),
+    wordsPerMinute,
+    fillerRate: fillerRate(accepted, duration),
+    longestPauses: longestPauses(accepted, normalization),
+    narrative: ''
+  };
+};
+
+const describeForPrompt = (report: EditingReport) => [
+  `Recording length: ${report.originalDuration.toFixed(0)} s, ${report.timeSaved.toFixed(0)} s removed.`,
+  'Removed:',
+  ...report.byType.map(t => `- ${t.count} ${CUT_TYPE_LABELS[t.type].toLowerCase()} (${t.seconds.toFixed(1)} s)`),
+  report.topPhrases.length > 0 && `Most repeated: ${report.topPhrases.map(p => `"${p.phrase}" x${p.count}`).join(', ')}.`,
+  report.wordsPerMinute && `Speaking rate: ${report.wordsPerMinute.before.toFixed(0)} words per minute before editing, ${report.wordsPerMinute.after.toFixed(0)} after.`,
+  report.fillerRate.length > 1 && `Filler words per minute over time: ${report.fillerRate.map(b => b.perMinute.toFixed(1)).join(', ')}.`,
+  report.longestPauses.length > 0 && `Longest pauses: ${report.longestPauses.map(p => `${p.seconds.toFixed(1)} s`).join(', ')}.`
+].filter(Boolean).join('\n');
+
+const fallbackNarrative = (report: EditingReport) => {
+  const count = (type: CutType) => report.byType.find(t => t.type === type)?.count ?? 0;
+  const share = report.originalDuration > 0 ? (report.timeSaved / report.originalDuration) * 100 : 0;
+  const top = report.topPhrases[0];
+  return `We removed ${count('filler')} fillers, ${count('cliche')} clichés, ${count('repetition')} repetitions, ${count('stutter')} stutters and ${count('false-start')} false starts, making the video ${share.toFixed(1)}% shorter.` +
+    (top ? ` Your most repeated phrase was "${top.phrase}" (${top.count} times).` : '');
+};
+
+/**
+ * Builds the report and asks the configured language model for a short
+ * coaching narrative. Without a model, or when it fails, the narrative is
+ * a plain summary of the numbers.
+ */
+export const generateEditingReport = async (
+  cuts: CutEvent[],
+  words: TranscriptWord[] | null,
+  duration: number,
+  normalization: CutNormalization,
+  llm: LlmSettings
+): Promise<EditingReport> => {
+  const report = buildEditingReport(cuts, words, duration, normalization);
+  const client = createLlmClient(llm);
+  if (!client) return { ...report, narrative: fallbackNarrative(report) };
+
+  const prompt = `
+    You are a speaking coach reviewing a recorded talk after verbal clutter was edited out of it.
+    ${describeForPrompt(report)}
+
+    Write feedback for the speaker in at most 5 sentences: acknowledge how much tighter the edit is,
+    name the one or two habits that cost the most time, and suggest one concrete thing to practise
+    before the next recording. Be encouraging and specific. Do not use markdown.
+  `;
+
+  try {
+    const narrative = (await client.generate({ feature: 'report', prompt })).trim();
+    return { ...report, narrative: narrative || fallbackNarrative(report) };
+  } catch (error) {
+    console.error(`${client.name} report failed:`, error);
+    return { ...report, narrative: fallbackNarrative(report) };
+  }
+};
+
+export type ReportFormat = 'md' | 'html' | 'json';
+
+const formatClock = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// The report's tables, shared by the Markdown and HTML exports
+const reportTables = (report: EditingReport): ReportTable[] => [
+  {
+    title: 'Summary',
+    headers: ['Original', 'Edited', 'Removed'],
+    rows: [[formatClock(report.originalDuration), formatClock(report.finalDuration), `${report.timeSaved.toFixed(1)} s`]]
+  },
+  {
+    title: 'Removed by type',
+    headers: ['Type', 'Cuts', 'Seconds'],
+    rows: report.byType.map(t => [CUT_TYPE_LABELS[t.type], String(t.count), t.seconds.toFixed(1)])
+  },
+  {
+    title: 'Most repeated phrases',
+    headers: ['Phrase', 'Type', 'Times'],
+    rows: report.topPhrases.map(p => [p.phrase, CUT_TYPE_LABELS[p.type], String(p.count)])
+  },
+  ...(report.wordsPerMinute ? [{
+    title: 'Speaking rate',
+    headers: ['Before', 'After'],
+    rows: [[`${report.wordsPerMinute.before.toFixed(0)} wpm`, `${report.wordsPerMinute.after.toFixed(0)} wpm`]]
+  }] : []),
+  {
+    title: 'Filler words per minute',
+    headers: ['From', 'To', 'Per minute'],
+    rows: report.fillerRate.map(b => [formatClock(b.start), formatClock(b.end), b.perMinute.toFixed(1)])
+  },
+  {
+    title: 'Longest pauses removed',
+    headers: ['At', 'Pause (s)', 'Removed (s)'],
+    rows: report.longestPauses.map(p => [formatClock(p.start), p.seconds.toFixed(1), p.removed.toFixed(1)])
+  }
+].filter(table => table.rows.length > 0);
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const formatReportMarkdown = (report: EditingReport): string => [
+  '# Editing report',
+  '',
+  `_${new Date(report.createdAt).toLocaleString()}_`,
+  '',
+  report.narrative,
+  ...reportTables(report).flatMap(table => [
+    '',
+    `## ${table.title}`,
+    '',
+    `| ${table.headers.join(' | ')} |`,
+    `| ${table.headers.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`)
+  ]),
+  ''
+].join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A standalone page that reads well in a browser, in email and when printed
+export const formatReportHtml = (report: EditingReport): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Editing report</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #1e293b; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+  th, td { text-align: left; padding: 0.35rem 0.6rem; border-bottom: 1px solid #e2e8f0; }
+  th { font-size: 0.8rem; text-transform: uppercase; color: #64748b; }
+  .narrative { font-size: 1.05rem; line-height: 1.6; }
+  .date { color: #64748b; }
+</style>
+</head>
+<body>
+<h1>Editing report</h1>
+<p class="date">${escapeHtml(new Date(report.createdAt).toLocaleString())}</p>
+<p class="narrative">${escapeHtml(report.narrative)}</p>
+${reportTables(report).map(table => `<h2>${escapeHtml(table.title)}</h2>
+<table>
+<thead><tr>${table.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`).join('\n')}
+</body>
+</html>
+`;
+
+export const formatReportJson = (report: EditingReport): string => JSON.stringify(report, null, 2);
+
+export const REPORT_FILES: Record<ReportFormat, { label: string; mime: string; format: (report: EditingReport) => string }> = {
+  md: { label: 'Markdown', mime: 'text/markdown', format: formatReportMarkdown },
+  html: { label: 'HTML', mime: 'text/html', format: formatReportHtml },
+  json: { label: 'JSON', mime: 'application/json', format: formatReportJson }
+};
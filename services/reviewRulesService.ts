@@ -0,0 +1,46 @@
+import { CategoryRule, CutEvent, CutStatus, DetectedCutType } from "../types";
+
+const rule = (autoAcceptAbove: number, autoRejectBelow: number): CategoryRule => ({
+  minConfidence: 0,
+  minDuration: 0,
+  maxDuration: 0,
+  autoAcceptAbove,
+  autoRejectBelow
+});
+
+// Clear-cut detections are accepted, weak ones rejected, and the rest left for review.
+// Custom phrases were asked for explicitly, so they are trusted more readily.
+export const DEFAULT_CATEGORY_RULES: Record<DetectedCutType, CategoryRule> = {
+  filler: rule(0.85, 0.4),
+  cliche: rule(0.85, 0.4),
+  stutter: rule(0.85, 0.4),
+  repetition: rule(0.85, 0.4),
+  'false-start': rule(0.85, 0.4),
+  silence: rule(0.85, 0.4),
+  custom: rule(0.6, 0.3)
+};
+
+const statusFor = (confidence: number, r: CategoryRule): CutStatus => {
+  if (confidence >= r.autoAcceptAbove) return 'accepted';
+  if (confidence < r.autoRejectBelow) return 'rejected';
+  return 'pending';
+};
+
+/**
+ * Drops detections outside each category's confidence and duration limits and
+ * sets the starting status of the rest from the auto-accept and auto-reject bands.
+ * Manual cuts are left untouched.
+ */
+export const applyCategoryRules = (
+  cuts: CutEvent[],
+  rules: Record<DetectedCutType, CategoryRule>
+): CutEvent[] =>
+  cuts.flatMap(cut => {
+    if (cut.type === 'manual') return [cut];
+    const r = rules[cut.type] ?? DEFAULT_CATEGORY_RULES[cut.type];
+    const length = cut.end - cut.start;
+    if (cut.confidence < r.minConfidence) return [];
+    if (length < r.minDuration) return [];
+    if (r.maxDuration > 0 && length > r.maxDuration) return [];
+    return [{ ...cut, status: statusFor(cut.confidence, r) }];
+  });
@@ -0,0 +1,170 @@
+import { CutEvent, LlmSettings, TranscriptWord } from "../types";
+import { spanConfidence, spanText } from "./detectionService";
+import { createLlmClient, JsonSchema } from "./llmService";
+
+// Cut types the language model is asked for. Its cuts join the rules' own for these types.
+export const SEMANTIC_CUT_TYPES = ['cliche', 'repetition', 'false-start'] as const;
+export type SemanticCutType = typeof SEMANTIC_CUT_TYPES[number];
+
+// Words per request, and how many each chunk shares with the next so spans
+// across a boundary are seen whole at least once
+const CHUNK_WORDS = 400;
+const CHUNK_OVERLAP = 30;
+
+// Spans longer than this are the model describing a passage, not a cut
+const MAX_SPAN_WORDS = 40;
+
+export interface TranscriptChunk {
+  offset: number; // index of the chunk's first word in the transcript
+  words: TranscriptWord[];
+}
+
+export const chunkTranscript = (words: TranscriptWord[]): TranscriptChunk[] => {
+  const chunks: TranscriptChunk[] = [];
+  for (let offset = 0; offset < words.length; offset += CHUNK_WORDS - CHUNK_OVERLAP) {
+    chunks.push({ offset, words: words.slice(offset, offset + CHUNK_WORDS) });
+    if (offset + CHUNK_WORDS >= words.length) break;
+  }
+  return chunks;
+};
+
+// Words are numbered by their index in the whole transcript, so spans map straight back
+const buildPrompt = (chunk: TranscriptChunk) => `
+You are reviewing a word-level transcript of a spoken recording for an editor who removes
+verbal clutter. Each word is prefixed with its index in brackets.
+
+Find spans of these kinds:
+- "cliche": stock phrases that add nothing ("at the end of the day", "to be honest").
+- "repetition": words or phrases said again unintentionally; mark the first utterance only.
+- "false-start": a sentence or phrase the speaker abandons and restarts; mark the abandoned part.
+
+Do not mark filler sounds ("um", "uh") or single-word stutters. Only mark what an editor would cut
+without changing the meaning. Give each span the index of its first and last word (inclusive),
+your confidence from 0 to 1 and a one-sentence rationale. Return an empty list if nothing qualifies.
+
+Transcript:
+${chunk.words.map((w, i) => `[${chunk.offset + i}]${w.text}`).join(' ')}
+`;
+
+const RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    spans: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: [...SEMANTIC_CUT_TYPES] },
+          startWord: { type: 'integer' },
+          endWord: { type: 'integer' },
+          confidence: { type: 'number' },
+          rationale: { type: 'string' }
+        },
+        required: ['type', 'startWord', 'endWord', 'confidence', 'rationale']
+      }
+    }
+  },
+  required: ['spans']
+};
+
+export interface SemanticSpan {
+  type: SemanticCutType;
+  from: number; // first word index
+  to: number; // one past the last word index
+  confidence: number; // 0-1, as given by the model
+  rationale: string;
+}
+
+/**
+ * Validates a model response for `chunk`, dropping spans with an unknown type,
+ * indices outside the chunk, reversed or overlong ranges, or missing fields.
+ * The model's own schema adherence is not trusted.
+ */
+export const parseSemanticSpans = (raw: unknown, chunk: TranscriptChunk): SemanticSpan[] => {
+  const spans = raw && typeof raw === 'object' ? (raw as { spans?: unknown }).spans : undefined;
+  if (!Array.isArray(spans)) return [];
+  const last = chunk.offset + chunk.words.length - 1;
+  const result: SemanticSpan[] = [];
+  for (const item of spans) {
+    if (!item || typeof item !== 'object') continue;
+    const s = item as Record<string, unknown>;
+    const type = SEMANTIC_CUT_TYPES.find(t => t === s.type);
+    const startWord = Number(s.startWord);
+    const endWord = Number(s.endWord);
+    const confidence = Number(s.confidence);
+    if (!type || !Number.isInteger(startWord) || !Number.isInteger(endWord)) continue;
+    if (startWord < chunk.offset || endWord > last || endWord < startWord) continue;
+    if (endWord - startWord + 1 > MAX_SPAN_WORDS || !Number.isFinite(confidence)) continue;
+    result.push({
+      type,
+      from: startWord,
+      to: endWord + 1,
+      confidence: Math.max(0, Math.min(1, confidence)),
+      rationale: typeof s.rationale === 'string' ? s.rationale.trim() : ''
+    });
+  }
+  return result;
+};
+
+/**
+ * Turns spans from every chunk into cuts on the transcript's word times. Where
+ * overlapping chunks report the same kind of span twice, the more confident one wins.
+ */
+export const semanticSpansToCuts = (spans: SemanticSpan[], words: TranscriptWord[]): CutEvent[] => {
+  const kept: SemanticSpan[] = [];
+  for (const span of [...spans].sort((a, b) => b.confidence - a.confidence)) {
+    const duplicate = kept.some(k => k.type === span.type && k.from < span.to && span.from < k.to);
+    if (!duplicate) kept.push(span);
+  }
+
+  const counters: Partial<Record<SemanticCutType, number>> = {};
+  return kept
+    .sort((a, b) => a.from - b.from)
+    .map(span => {
+      const n = counters[span.type] ?? 0;
+      counters[span.type] = n + 1;
+      return {
+        id: `${span.type}-${n}`,
+        type: span.type,
+        word: spanText(words, span.from, span.to),
+        start: words[span.from].start,
+        end: words[span.to - 1].end,
+        // Uncertain recognition of the words themselves lowers confidence in the cut
+        confidence: spanConfidence(words, span.from, span.to, span.confidence),
+        status: 'accepted',
+        ...(span.rationale && { rationale: span.rationale })
+      };
+    });
+};
+
+/**
+ * Asks the configured language model for cliché, repetition and false-start
+ * spans, one chunk of the transcript at a time. Resolves with null when no
+ * model is available (Gemini without an API key); the rule-based cuts apply
+ * either way.
+ */
+export const detectSemanticCuts = async (
+  words: TranscriptWord[],
+  llm: LlmSettings,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<CutEvent[] | null> => {
+  const client = createLlmClient(llm);
+  if (!client) return null;
+
+  const chunks = chunkTranscript(words);
+  const spans: SemanticSpan[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    const text = await client.generate({ feature: 'detection', prompt: buildPrompt(chunk), schema: RESPONSE_SCHEMA, signal });
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text || '{}');
+    } catch {
+      console.warn(`Ignoring malformed semantic detection response for words ${chunk.offset}+`);
+      parsed = null;
+    }
+    spans.push(...parseSemanticSpans(parsed, chunk));
+    onProgress?.((i + 1) / chunks.length);
+  }
+  return semanticSpansToCuts(spans, words);
+};
@@ -0,0 +1,115 @@
+// Keyboard shortcuts for the review screen. Bindings are user-configurable
+// and kept in localStorage, so they follow the editor across projects.
+
+export type ShortcutAction =
+  | 'playPause'
+  | 'shuttleReverse'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'acceptCut'
+  | 'rejectCut'
+  | 'nextCut'
+  | 'prevCut'
+  | 'back5'
+  | 'forward5'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomFit'
+  | 'help';
+
+export type ShortcutMap = Record<ShortcutAction, string[]>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'playPause', label: 'Play / pause' },
+  { action: 'shuttleReverse', label: 'Shuttle reverse (press again to speed up)' },
+  { action: 'shuttleStop', label: 'Stop shuttle (hold with J/L to step a frame)' },
+  { action: 'shuttleForward', label: 'Shuttle forward (press again to speed up)' },
+  { action: 'acceptCut', label: 'Accept focused cut' },
+  { action: 'rejectCut', label: 'Reject focused cut' },
+  { action: 'nextCut', label: 'Jump to and audition next cut' },
+  { action: 'prevCut', label: 'Jump to and audition previous cut' },
+  { action: 'back5', label: 'Back 5 seconds' },
+  { action: 'forward5', label: 'Forward 5 seconds' },
+  { action: 'zoomIn', label: 'Zoom the timeline in around the playhead' },
+  { action: 'zoomOut', label: 'Zoom the timeline out' },
+  { action: 'zoomFit', label: 'Show the whole recording' },
+  { action: 'help', label: 'Show or hide this help' },
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  playPause: ['Space'],
+  shuttleReverse: ['j'],
+  shuttleStop: ['k'],
+  shuttleForward: ['l'],
+  acceptCut: ['a'],
+  rejectCut: ['r'],
+  nextCut: ['n'],
+  prevCut: ['p'],
+  back5: ['ArrowLeft'],
+  forward5: ['ArrowRight'],
+  zoomIn: ['=', '+'],
+  zoomOut: ['-'],
+  zoomFit: ['0'],
+  help: ['?'],
+};
+
+// Playback rates J and L step through on repeated presses
+export const SHUTTLE_SPEEDS = [1, 2, 4, 8];
+
+const STORAGE_KEY = 'claritycut.shortcuts';
+
+/**
+ * Normalises a key press to a binding string such as `j`, `Shift+n`, `Space`
+ * or `Alt+ArrowLeft`. Shift is only recorded where it does not already change
+ * the character, so `?` stays `?` rather than `Shift+/`.
+ */
+export const keyFromEvent = (e: KeyboardEvent): string => {
+  const isChar = e.key.length === 1 && e.key !== ' ';
+  const key = e.key === ' ' ? 'Space' : isChar ? e.key.toLowerCase() : e.key;
+  const modifiers: string[] = [];
+  if (e.ctrlKey || e.metaKey) modifiers.push('Mod');
+  if (e.altKey) modifiers.push('Alt');
+  if (e.shiftKey && (!isChar || /^[a-z]$/i.test(e.key))) modifiers.push('Shift');
+  return [...modifiers, key].join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Mod: 'Ctrl',
+};
+
+export const formatKey = (binding: string): string =>
+  binding.split('+').map(part => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part)).join('+');
+
+export const findAction = (shortcuts: ShortcutMap, key: string): ShortcutAction | null =>
+  (Object.keys(shortcuts) as ShortcutAction[]).find(action => shortcuts[action].includes(key)) ?? null;
+
+/**
+ * Binds `key` to `action`, replacing its previous binding and removing the key
+ * from any other action so every key triggers exactly one thing.
+ */
+export const rebind = (shortcuts: ShortcutMap, action: ShortcutAction, key: string): ShortcutMap => {
+  const next = { ...shortcuts };
+  for (const other of Object.keys(next) as ShortcutAction[]) {
+    next[other] = next[other].filter(k => k !== key);
+  }
+  next[action] = [key];
+  return next;
+};
+
+export const loadShortcuts = (): ShortcutMap => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    // Actions added since the map was saved get their defaults
+    return stored ? { ...DEFAULT_SHORTCUTS, ...stored } : DEFAULT_SHORTCUTS;
+  } catch {
+    return DEFAULT_SHORTCUTS;
+  }
+};
+
+export const saveShortcuts = (shortcuts: ShortcutMap) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shortcuts));
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { CutEvent, SubtitleSettings, TranscriptWord } from "../types";
+import { DEFAULT_NORMALIZATION } from "./cutListService";
+import { buildCues, formatSrt, formatVtt } from "./subtitleService";
+
+const settings: SubtitleSettings = { maxCharsPerLine: 20, maxLines: 2, maxCueDuration: 6 };
+const normalization = { ...DEFAULT_NORMALIZATION, mergeGap: 0, minKeptSegment: 0 };
+
+// One word every half second, each 0.4 s long
+const wordsFrom = (text: string, offset = 0): TranscriptWord[] =>
+  text.split(' ').map((t, i) => ({ text: t, start: offset + i * 0.5, end: offset + i * 0.5 + 0.4, confidence: 1 }));
+
+describe("buildCues", () => {
+  it("wraps words into lines no longer than the limit", () => {
+    const cues = buildCues(wordsFrom('one two three four five six seven'), [], 10, settings, 'original', normalization);
+    expect(cues).toHaveLength(1);
+    expect(cues[0].lines).toEqual(['one two three four', 'five six seven']);
+  });
+
+  it("starts a new cue when the lines would overflow", () => {
+    const cues = buildCues(wordsFrom('alpha bravo charlie delta echo foxtrot golf hotel'), [], 10, settings, 'original', normalization);
+    expect(cues.map(c => c.lines)).toEqual([['alpha bravo charlie', 'delta echo foxtrot'], ['golf hotel']]);
+    expect(cues[1].start).toBe(3);
+  });
+
+  it("starts a new cue after a long gap or a finished sentence", () => {
+    const words = [...wordsFrom('We begin here today.'), ...wordsFrom('Then more', 2), ...wordsFrom('after pause', 6)];
+    const cues = buildCues(words, [], 10, settings, 'original', normalization);
+    expect(cues.map(c => c.lines.join(' '))).toEqual(['We begin here today.', 'Then more', 'after pause']);
+  });
+
+  it("never lets a cue run past the next one's start", () => {
+    const cues = buildCues(wordsFrom('a b c d e f g h i j k l m n o p'), [], 10, { ...settings, maxCueDuration: 2 }, 'original', normalization);
+    for (let i = 0; i < cues.length - 1; i++) expect(cues[i].end).toBeLessThanOrEqual(cues[i + 1].start);
+  });
+
+  it("drops removed words and shifts the rest onto the edited timeline", () => {
+    const cuts: CutEvent[] = [{ id: 'um', type: 'filler', start: 0.5, end: 1, confidence: 1, status: 'accepted' }];
+    const cues = buildCues(wordsFrom('so um we go'), cuts, 10, settings, 'edited', normalization);
+    expect(cues).toHaveLength(1);
+    expect(cues[0].lines).toEqual(['so we go']);
+    expect(cues[0].start).toBe(0);
+    expect(cues[0].end).toBeCloseTo(1.5 + 0.4 - 0.5);
+  });
+
+  it("keeps every word on the original timeline", () => {
+    const cuts: CutEvent[] = [{ id: 'um', type: 'filler', start: 0.5, end: 1, confidence: 1, status: 'accepted' }];
+    const cues = buildCues(wordsFrom('so um we go'), cuts, 10, settings, 'original', normalization);
+    expect(cues[0].lines).toEqual(['so um we go']);
+    expect(cues[0].end).toBeCloseTo(1.9);
+  });
+});
+
+describe("formatting", () => {
+  const cues = [{ start: 3661.5, end: 3662.25, lines: ['Hello', 'there'] }, { start: 3663, end: 3664, lines: ['Bye'] }];
+
+  it("writes numbered SRT cues with comma milliseconds", () => {
+    expect(formatSrt(cues)).toBe('1\n01:01:01,500 --> 01:01:02,250\nHello\nthere\n\n2\n01:01:03,000 --> 01:01:04,000\nBye\n');
+  });
+
+  it("writes WebVTT with a header and dot milliseconds", () => {
+    expect(formatVtt(cues)).toBe('WEBVTT\n\n01:01:01.500 --> 01:01:02.250\nHello\nthere\n\n01:01:03.000 --> 01:01:04.000\nBye\n');
+  });
+});
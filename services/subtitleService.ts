@@ -0,0 +1,111 @@
+import { CutEvent, CutNormalization, SubtitleSettings, TranscriptWord } from "../types";
+import { computeKeptSegments, findRemovedRange, mapToEditedTime, normalizeCuts } from "./cutListService";
+
+export type SubtitleFormat = 'srt' | 'vtt';
+export type SubtitleTimeline = 'edited' | 'original';
+
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// Greedy wrap into lines of at most `maxChars`. A single word longer than a line gets its own line.
+const wrap = (words: string[], maxChars: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of words) {
+    if (!line) line = word;
+    else if (line.length + 1 + word.length <= maxChars) line += ` ${word}`;
+    else { lines.push(line); line = word; }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// A gap this long between words always starts a new cue
+const MAX_GAP = 1.0;
+
+/**
+ * Groups transcript words into caption cues. On the edited timeline, words
+ * removed by accepted cuts are dropped and the rest are shifted left by the
+ * time removed before them, so captions line up with the rendered video.
+ */
+export const buildCues = (
+  words: TranscriptWord[],
+  cuts: CutEvent[],
+  duration: number,
+  settings: SubtitleSettings,
+  timeline: SubtitleTimeline,
+  normalization: CutNormalization
+): Cue[] => {
+  const kept = computeKeptSegments(cuts, duration, normalization);
+  const removed = normalizeCuts(cuts, duration, normalization);
+
+  const timed = timeline === 'original'
+    ? words
+    : words
+        .filter(w => {
+          const mid = (w.start + w.end) / 2;
+          return !findRemovedRange(removed, mid);
+        })
+        .map(w => ({ ...w, start: mapToEditedTime(w.start, kept), end: mapToEditedTime(w.end, kept) }));
+
+  const cues: Cue[] = [];
+  let current: TranscriptWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      lines: wrap(current.map(w => w.text), settings.maxCharsPerLine)
+    });
+    current = [];
+  };
+
+  for (const word of timed) {
+    if (current.length > 0) {
+      const first = current[0];
+      const last = current[current.length - 1];
+      const candidate = wrap([...current, word].map(w => w.text), settings.maxCharsPerLine);
+      const sentenceDone = /[.!?]$/.test(last.text) &&
+        current.map(w => w.text).join(' ').length >= settings.maxCharsPerLine / 2;
+      if (
+        candidate.length > settings.maxLines ||
+        word.end - first.start > settings.maxCueDuration ||
+        word.start - last.end > MAX_GAP ||
+        sentenceDone
+      ) {
+        flush();
+      }
+    }
+    current.push(word);
+  }
+  flush();
+
+  // Never let a cue overlap the next one
+  for (let i = 0; i < cues.length - 1; i++) {
+    cues[i].end = Math.min(cues[i].end, cues[i + 1].start);
+  }
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor(ms / 60000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const formatSrt = (cues: Cue[]): string =>
+  cues.map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`
+  ).join('\n');
+
+export const formatVtt = (cues: Cue[]): string =>
+  'WEBVTT\n\n' + cues.map(cue =>
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.join('\n')}\n`
+  ).join('\n');
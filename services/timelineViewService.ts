@@ -0,0 +1,142 @@
+import { CutEvent } from "../types";
+
+// The stretch of the recording the review timeline currently shows
+export interface TimelineView {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// Narrowest window the timeline zooms in to, in seconds
+export const MIN_VIEW_SPAN = 0.5;
+
+// Zoom factor per wheel notch or button press
+export const ZOOM_STEP = 1.5;
+
+/** Keeps the view inside the media and no narrower than MIN_VIEW_SPAN. */
+export const clampView = (view: TimelineView, duration: number): TimelineView => {
+  const span = Math.min(duration, Math.max(MIN_VIEW_SPAN, view.end - view.start));
+  const start = Math.max(0, Math.min(view.start, duration - span));
+  return { start, end: start + span };
+};
+
+/**
+ * Scales the view by `factor` (below 1 zooms in) around `anchor`, which stays
+ * at the same place on screen, e.g. under the mouse.
+ */
+export const zoomView = (view: TimelineView, factor: number, anchor: number, duration: number): TimelineView => {
+  const span = view.end - view.start;
+  const next = span * factor;
+  const start = anchor - ((anchor - view.start) / span) * next;
+  return clampView({ start, end: start + next }, duration);
+};
+
+export const panView = (view: TimelineView, delta: number, duration: number): TimelineView =>
+  clampView({ start: view.start + delta, end: view.end + delta }, duration);
+
+/**
+ * Pages the view when the playhead runs off either side, leaving a little of
+ * what came before in sight. Returns the same object while the playhead is visible.
+ */
+export const followPlayhead = (view: TimelineView, time: number, duration: number): TimelineView => {
+  const span = view.end - view.start;
+  if (time >= view.start && time <= view.end) return view;
+  return clampView({ start: time - span * 0.1, end: time + span * 0.9 }, duration);
+};
+
+export interface RulerTick {
+  time: number;
+  label: string | null; // only major ticks are labelled
+}
+
+// Tick intervals a ruler may use, in seconds
+const TICK_STEPS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+
+const formatTick = (time: number, step: number): string => {
+  const hours = Math.floor(time / 3600);
+  const mins = Math.floor((time % 3600) / 60);
+  const secs = time % 60;
+  const decimals = step < 0.1 ? 2 : step < 1 ? 1 : 0;
+  const secText = decimals > 0 ? secs.toFixed(decimals).padStart(3 + decimals, '0') : Math.floor(secs).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secText}`
+    : `${mins}:${secText}`;
+};
+
+/**
+ * Ticks for a ruler `width` pixels wide: labelled ticks at the smallest step
+ * that keeps labels `minSpacing` pixels apart, with unlabelled ticks between.
+ */
+export const rulerTicks = (view: TimelineView, width: number, minSpacing = 80): RulerTick[] => {
+  const span = view.end - view.start;
+  if (span <= 0 || width <= 0) return [];
+  const pxPerSecond = width / span;
+  const major = TICK_STEPS.find(s => s * pxPerSecond >= minSpacing) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const divides = (s: number) => Math.abs(major / s - Math.round(major / s)) < 1e-6;
+  const minor = [...TICK_STEPS].reverse().find(s => s < major && divides(s) && s * pxPerSecond >= 8) ?? major;
+
+  const ticks: RulerTick[] = [];
+  const first = Math.ceil(view.start / minor - 1e-9);
+  for (let i = first; i * minor <= view.end + 1e-9; i++) {
+    const time = i * minor;
+    const isMajor = Math.abs(time / major - Math.round(time / major)) < 1e-6;
+    ticks.push({ time, label: isMajor ? formatTick(time, major) : null });
+  }
+  return ticks;
+};
+
+export type TimelineMarker =
+  | { kind: 'cut'; cut: CutEvent }
+  | { kind: 'cluster'; start: number; end: number; count: number; accepted: number };
+
+// Beyond this many cuts in view, narrow ones are drawn as clusters
+const MAX_MARKERS = 300;
+// Narrow cuts whose left edges fall within this many pixels share a cluster
+const CLUSTER_PX = 4;
+
+/**
+ * Markers to draw for the cuts overlapping the view. Cuts at least a few
+ * pixels wide, and any `pinned` ones, are always drawn individually; when too
+ * many remain, neighbouring narrow cuts are grouped so the DOM stays small.
+ */
+export const layoutMarkers = (
+  cuts: CutEvent[],
+  view: TimelineView,
+  width: number,
+  pinned: (cut: CutEvent) => boolean
+): TimelineMarker[] => {
+  const inView = cuts.filter(c => c.end > view.start && c.start < view.end);
+  if (inView.length <= MAX_MARKERS || width <= 0) return inView.map(cut => ({ kind: 'cut', cut }));
+
+  const pxPerSecond = width / (view.end - view.start);
+  const markers: TimelineMarker[] = [];
+  let cluster: { start: number; end: number; cuts: CutEvent[] } | null = null;
+  const flush = () => {
+    if (!cluster) return;
+    markers.push(cluster.cuts.length === 1
+      ? { kind: 'cut', cut: cluster.cuts[0] }
+      : {
+          kind: 'cluster',
+          start: cluster.start,
+          end: cluster.end,
+          count: cluster.cuts.length,
+          accepted: cluster.cuts.filter(c => c.status === 'accepted').length
+        });
+    cluster = null;
+  };
+
+  for (const cut of [...inView].sort((a, b) => a.start - b.start)) {
+    if (pinned(cut) || (cut.end - cut.start) * pxPerSecond >= CLUSTER_PX) {
+      markers.push({ kind: 'cut', cut });
+      continue;
+    }
+    if (cluster && (cut.start - cluster.start) * pxPerSecond < CLUSTER_PX) {
+      cluster.end = Math.max(cluster.end, cut.end);
+      cluster.cuts.push(cut);
+    } else {
+      flush();
+      cluster = { start: cut.start, end: cut.end, cuts: [cut] };
+    }
+  }
+  flush();
+  return markers;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { TranscriptWord } from "../types";
+import { placeWindowWords, transcriptionWindows } from "./transcriptionService";
+
+const word = (text: string, start: number, end: number): TranscriptWord => ({ text, start, end, confidence: 1 });
+
+describe("transcriptionWindows", () => {
+  it("covers a short recording with one window", () => {
+    expect(transcriptionWindows(42, 300, 2)).toEqual([{ start: 0, end: 42, audioStart: 0, audioEnd: 42 }]);
+  });
+
+  it("splits a long recording and overlaps the audio at each seam", () => {
+    expect(transcriptionWindows(700, 300, 2)).toEqual([
+      { start: 0, end: 300, audioStart: 0, audioEnd: 302 },
+      { start: 300, end: 600, audioStart: 298, audioEnd: 602 },
+      { start: 600, end: 700, audioStart: 598, audioEnd: 700 }
+    ]);
+  });
+
+  it("does not add an empty window when the duration divides evenly", () => {
+    expect(transcriptionWindows(600, 300, 2)).toHaveLength(2);
+  });
+});
+
+describe("placeWindowWords", () => {
+  const [first, second] = transcriptionWindows(700, 300, 2);
+
+  it("offsets word times by where the window's audio starts", () => {
+    expect(placeWindowWords([word('hello', 10, 10.5)], second)).toEqual([word('hello', 308, 308.5)]);
+  });
+
+  it("gives a word on the seam to exactly one window", () => {
+    // The same word heard in both windows' overlap: 299.8–300.4 on the recording's timeline
+    const inFirst = placeWindowWords([word('seam', 299.8, 300.4)], first);
+    const inSecond = placeWindowWords([word('seam', 1.8, 2.4)], second);
+    expect(inFirst.length + inSecond.length).toBe(1);
+    expect(inSecond).toEqual([word('seam', 299.8, 300.4)]);
+  });
+
+  it("drops words that only fall in the overlap", () => {
+    expect(placeWindowWords([word('early', 0.5, 1)], second)).toEqual([]);
+    expect(placeWindowWords([word('late', 301, 301.5)], first)).toEqual([]);
+  });
+});
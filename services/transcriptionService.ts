@@ -0,0 +1,221 @@
+import { LlmSettings, Transcript, TranscriptionSettings, TranscriptWord } from "../types";
+import { decodeAudio, encodeWav } from "./audioService";
+import { createLlmClient, getGeminiClient, isLoopbackUrl, JsonSchema } from "./llmService";
+
+/**
+ * A speech-to-text backend. Implementations must return words sorted by start
+ * time, with times in seconds relative to the start of the file.
+ */
+export interface TranscriptionProvider {
+  name: string;
+  transcribe: (file: File, signal?: AbortSignal) => Promise<Transcript>;
+}
+
+/**
+ * Validates loosely-typed word records from any backend, dropping entries
+ * without usable text or timing and clamping confidence into 0-1.
+ */
+export const normalizeWords = (raw: unknown): TranscriptWord[] => {
+  if (!Array.isArray(raw)) return [];
+  const words: TranscriptWord[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const w = item as Record<string, unknown>;
+    // Whisper servers call the token `word`; our own fixtures use `text`.
+    const text = typeof w.text === 'string' ? w.text : typeof w.word === 'string' ? w.word : '';
+    const start = Number(w.start);
+    const end = Number(w.end);
+    if (!text.trim() || !Number.isFinite(start) || !Number.isFinite(end) || end < start) continue;
+    const rawConfidence = w.confidence ?? w.probability;
+    const confidence = rawConfidence === undefined ? 1 : Number(rawConfidence);
+    words.push({
+      text: text.trim(),
+      start,
+      end,
+      confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(1, confidence)) : 1
+    });
+  }
+  return words.sort((a, b) => a.start - b.start);
+};
+
+const TRANSCRIPT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    language: { type: 'string' },
+    words: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          start: { type: 'number' },
+          end: { type: 'number' },
+          confidence: { type: 'number' }
+        },
+        required: ['text', 'start', 'end', 'confidence']
+      }
+    }
+  },
+  required: ['words']
+};
+
+// Five minutes is roughly 750 words, well inside the model's output limit as word-level JSON
+const WINDOW_SECONDS = 300;
+// Windows overlap by this much on each side so words cut off at an edge are heard whole by one of them
+const WINDOW_OVERLAP = 2;
+
+export interface TranscriptionWindow {
+  start: number; // seconds; words whose midpoint falls in [start, end) belong to this window
+  end: number;
+  audioStart: number; // seconds; the audio actually sent, including the overlap
+  audioEnd: number;
+}
+
+/** Splits `duration` seconds into consecutive windows with overlapping audio. */
+export const transcriptionWindows = (duration: number, windowSeconds = WINDOW_SECONDS, overlap = WINDOW_OVERLAP): TranscriptionWindow[] => {
+  const count = Math.max(1, Math.ceil(duration / windowSeconds));
+  return Array.from({ length: count }, (_, i) => {
+    const start = i * windowSeconds;
+    const end = i === count - 1 ? duration : start + windowSeconds;
+    return { start, end, audioStart: Math.max(0, start - overlap), audioEnd: Math.min(duration, end + overlap) };
+  });
+};
+
+/**
+ * Moves words timed from the start of a window's audio onto the recording's
+ * timeline, keeping only those that belong to the window.
+ */
+export const placeWindowWords = (words: TranscriptWord[], window: TranscriptionWindow): TranscriptWord[] =>
+  words
+    .map(w => ({ ...w, start: w.start + window.audioStart, end: w.end + window.audioStart }))
+    .filter(w => {
+      const mid = (w.start + w.end) / 2;
+      return mid >= window.start && mid < window.end;
+    });
+
+/**
+ * Sends the audio track to Gemini a window at a time and asks for word-level
+ * timings as structured JSON; a whole recording's words would not fit in one
+ * answer. Uses the configured Gemini model, whichever provider semantic
+ * detection is set to.
+ */
+export const createGeminiTranscriptionProvider = (llm: LlmSettings): TranscriptionProvider => ({
+  name: 'Gemini',
+  transcribe: async (file, signal) => {
+    const ai = getGeminiClient();
+    const client = createLlmClient({ ...llm, provider: 'gemini' });
+    if (!ai || !client) {
+      throw new Error("Gemini transcription needs an API key. Choose another transcription provider.");
+    }
+
+    const buffer = await decodeAudio(file);
+    const words: TranscriptWord[] = [];
+    let language: string | undefined;
+    for (const window of transcriptionWindows(buffer.duration)) {
+      // Upload rather than inline: even a window is over the inline request limit.
+      const audio = encodeWav(buffer, window.audioStart, window.audioEnd);
+      const uploaded = await ai.files.upload({ file: audio, config: { mimeType: 'audio/wav', abortSignal: signal } });
+      if (!uploaded.uri || !uploaded.mimeType) {
+        throw new Error("Audio upload to Gemini failed");
+      }
+
+      const text = await client.generate({
+        feature: 'transcription',
+        prompt: `Transcribe this audio verbatim, word by word. Keep every filler word ("um", "uh"),
+          repetition and stutter exactly as spoken; do not clean anything up.
+          For each word give its start and end time in seconds from the start of this audio and your confidence from 0 to 1.`,
+        files: [{ uri: uploaded.uri, mimeType: uploaded.mimeType }],
+        schema: TRANSCRIPT_SCHEMA,
+        // Transcribing can take about as long as the audio itself
+        timeoutSeconds: Math.max(llm.timeoutSeconds, Math.ceil(window.audioEnd - window.audioStart)),
+        signal
+      });
+
+      const parsed = JSON.parse(text || '{}');
+      words.push(...placeWindowWords(normalizeWords(parsed.words), window));
+      language ??= typeof parsed.language === 'string' ? parsed.language : undefined;
+    }
+    return { words, language };
+  }
+});
+
+/**
+ * Talks to any server implementing OpenAI's `/v1/audio/transcriptions`
+ * (whisper.cpp server, faster-whisper-server, LocalAI, ...).
+ */
+export const createWhisperHttpTranscriptionProvider = (endpoint: string, model: string): TranscriptionProvider => ({
+  name: 'Whisper (HTTP)',
+  transcribe: async (file, signal) => {
+    const form = new FormData();
+    form.append('file', encodeWav(await decodeAudio(file)), 'audio.wav');
+    form.append('model', model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/v1/audio/transcriptions`, {
+      method: 'POST',
+      body: form,
+      signal
+    });
+    if (!response.ok) {
+      throw new Error(`Transcription server responded ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json();
+    // Some servers only nest words inside segments.
+    const rawWords = Array.isArray(body.words)
+      ? body.words
+      : Array.isArray(body.segments) ? body.segments.flatMap((s: { words?: unknown[] }) => s.words ?? []) : [];
+    return { words: normalizeWords(rawWords), language: body.language };
+  }
+});
+
+/**
+ * Loads a pre-recorded transcript JSON (`{ "words": [{ text, start, end, confidence }] }`).
+ * Useful offline and for reproducible runs; the media file itself is ignored.
+ */
+export const createFixtureTranscriptionProvider = (url: string): TranscriptionProvider => ({
+  name: 'Fixture file',
+  transcribe: async (_file, signal) => {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Could not load transcript fixture ${url} (${response.status})`);
+    }
+    const body = await response.json();
+    return { words: normalizeWords(body.words), language: body.language };
+  }
+});
+
+/**
+ * Why analysis cannot start with these settings, or null when it can. Checked
+ * before analyzing so a missing provider is never papered over with sample data.
+ */
+export const transcriptionSetupError = (settings: TranscriptionSettings): string | null => {
+  switch (settings.provider) {
+    case null: return "Configure a transcription provider under Configuration → Transcription.";
+    case 'gemini': return process.env.API_KEY ? null : "Gemini transcription needs an API key. Choose another transcription provider.";
+    case 'whisper': return settings.whisperEndpoint.trim() ? null : "Enter the address of the Whisper-compatible server.";
+    case 'fixture': return settings.fixtureUrl.trim() ? null : "Enter the address of the transcript file.";
+  }
+};
+
+/** Whether transcribing with these settings keeps the audio on this device. */
+export const transcriptionStaysOnDevice = (settings: TranscriptionSettings): boolean => {
+  switch (settings.provider) {
+    case null: return true;
+    case 'gemini': return false;
+    case 'whisper': return isLoopbackUrl(settings.whisperEndpoint);
+    case 'fixture': return true; // the media is never read
+  }
+};
+
+export const createTranscriptionProvider = (settings: TranscriptionSettings, llm: LlmSettings): TranscriptionProvider => {
+  const setupError = transcriptionSetupError(settings);
+  if (setupError) throw new Error(setupError);
+  switch (settings.provider) {
+    case null: throw new Error("No transcription provider configured");
+    case 'gemini': return createGeminiTranscriptionProvider(llm);
+    case 'whisper': return createWhisperHttpTranscriptionProvider(settings.whisperEndpoint, settings.whisperModel);
+    case 'fixture': return createFixtureTranscriptionProvider(settings.fixtureUrl);
+  }
+};
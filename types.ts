@@ -1,6 +1,17 @@
 export type Phase = 'upload' | 'analyzing' | 'review' | 'processing' | 'completed';
 
-export type CutType = 'cliche' | 'filler' | 'silence' | 'repetition' | 'stutter';
+// 'custom' cuts match the user's own phrases; 'manual' cuts are created by the reviewer rather than detected
+// 'false-start' cuts are abandoned openings of a sentence ("So what we— Let's start again")
+export type CutType = 'cliche' | 'filler' | 'silence' | 'repetition' | 'stutter' | 'false-start' | 'custom' | 'manual';
+
+// Cuts the analyzer finds, as opposed to ones the reviewer adds
+export type DetectedCutType = Exclude<CutType, 'manual'>;
+
+// 'pending' cuts fell between the auto-accept and auto-reject bands and wait for a reviewer.
+// Until then they are kept in the video, like rejected cuts.
+export type CutStatus = 'accepted' | 'rejected' | 'pending';
+
+export type TranscriptionProviderId = 'gemini' | 'whisper' | 'fixture';
 
 export type OutputFormat = 'mp4' | 'mov' | 'avi' | 'mkv';
 export type OutputQuality = 'original' | '4k' | '1080p' | '720p' | '480p';
@@ -12,7 +23,82 @@ export interface CutEvent {
   start: number; // seconds
   end: number; // seconds
   confidence: number; // 0-1
-  status: 'accepted' | 'rejected';
+  status: CutStatus;
+  phrase?: string; // custom phrase that produced this cut
+  phraseList?: string; // name of the saved list the phrase came from
+  silenceMode?: SilenceMode; // silence cuts only; overrides the project-wide mode
+  rationale?: string; // why the language model flagged this span, for model-detected cuts
+}
+
+export interface TranscriptWord {
+  text: string; // as spoken, may include punctuation
+  start: number; // seconds
+  end: number; // seconds
+  confidence: number; // 0-1
+}
+
+export interface Transcript {
+  words: TranscriptWord[];
+  language?: string;
+}
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId | null; // null until the user picks one; analysis is blocked until then
+  whisperEndpoint: string; // base URL of an OpenAI-compatible server
+  whisperModel: string;
+  fixtureUrl: string; // transcript JSON used by the fixture provider
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'stub';
+
+// The language model behind semantic detection and the editing report
+export interface LlmSettings {
+  provider: LlmProviderId;
+  geminiModel: string;
+  openaiEndpoint: string; // base URL of an OpenAI-compatible server, e.g. Ollama or llama.cpp
+  openaiModel: string;
+  openaiApiKey: string; // most self-hosted servers need none
+  timeoutSeconds: number; // per attempt
+  maxRetries: number;
+}
+
+export interface SubtitleSettings {
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxCueDuration: number; // seconds
+}
+
+// Sensitivity and auto-review settings for one category of detected cut
+export interface CategoryRule {
+  minConfidence: number; // detections below this are discarded
+  minDuration: number; // seconds; shorter detections are discarded
+  maxDuration: number; // seconds; longer detections are discarded, 0 for no limit
+  autoAcceptAbove: number; // confidence at or above which a cut starts accepted
+  autoRejectBelow: number; // confidence below which a cut starts rejected
+}
+
+export type SilenceMode = 'remove' | 'shorten';
+
+// How silence cuts are applied: removed outright, or shortened to a natural pause
+export interface SilenceHandling {
+  mode: SilenceMode; // for silence cuts that have no mode of their own
+  keepSeconds: number; // pause left behind when shortening
+  keepRatio: number; // 0-1; share of the rest of the pause also kept, so long pauses stay a little longer
+}
+
+// How accepted cuts become the ranges actually removed from the media
+export interface CutNormalization {
+  padBefore: number; // seconds kept at the start of each cut
+  padAfter: number; // seconds kept at the end of each cut
+  mergeGap: number; // cuts closer together than this are joined
+  minKeptSegment: number; // kept stretches shorter than this are removed as well
+  silence: SilenceHandling;
+}
+
+// How the audio is joined where material was removed
+export interface AudioJoinSettings {
+  crossfadeMs: number; // equal-power crossfade at each join, 5-50 ms
+  roomTone: boolean; // bridge joins over removed silences with the recording's own room tone
 }
 
 export interface VideoConfig {
@@ -21,21 +107,123 @@ export interface VideoConfig {
   removeSilence: boolean;
   removeRepetition: boolean;
   removeStuttering: boolean;
-  silenceThreshold: number;
-  customPhrases: string[];
+  silenceThreshold: number; // minimum pause length in seconds
+  silenceFloorDb: number; // audio level (dBFS) below which a pause counts as silence
+  customPhrases: string[]; // one-off phrases not kept in any saved list
+  activePhraseListIds: string[]; // saved lists whose phrases are detected as custom cuts
+  categoryRules: Record<DetectedCutType, CategoryRule>;
+  normalization: CutNormalization;
+  audioJoins: AudioJoinSettings;
+  transcription: TranscriptionSettings;
+  llm: LlmSettings;
   outputFormat: OutputFormat;
   outputQuality: OutputQuality;
+  subtitles: SubtitleSettings;
+  speaker: string; // who is speaking, for the coaching history; may be empty
 }
 
 export interface PhraseList {
   id: string;
   name: string;
   phrases: string[];
+  updatedAt?: number;
 }
 
 export interface ProcessingMetrics {
   originalDuration: number;
   finalDuration: number;
-  cutsCount: number;
+  cutsCount: number; // accepted cuts, however padding and merging join them
   timeSaved: number;
-}
\ No newline at end of file
+}
+
+// Structured summary of a finished edit, for coaching feedback and export
+export interface EditingReport {
+  createdAt: number; // epoch ms
+  originalDuration: number; // seconds
+  finalDuration: number; // seconds
+  timeSaved: number; // seconds, overlaps counted once
+  byType: ReportTypeSummary[];
+  topPhrases: ReportPhraseCount[]; // most repeated filler words and phrases, most frequent first
+  wordsPerMinute: { before: number; after: number } | null; // null without a transcript
+  fillerRate: ReportRateBucket[]; // filler words per minute across the recording
+  longestPauses: ReportPause[]; // longest pauses removed, longest first
+  narrative: string; // written by the language model, or a plain summary without one
+}
+
+export interface ReportTypeSummary {
+  type: CutType;
+  count: number; // accepted cuts
+  seconds: number; // their share of the removed time; the types add up to timeSaved
+}
+
+export interface ReportPhraseCount {
+  phrase: string; // lower case, without punctuation
+  type: CutType;
+  count: number;
+}
+
+export interface ReportRateBucket {
+  start: number; // seconds
+  end: number; // seconds
+  perMinute: number;
+}
+
+export interface ReportPause {
+  start: number; // seconds
+  seconds: number; // length of the pause in the source
+  removed: number; // seconds taken out; less than the pause when it was shortened
+}
+
+// One processed video in a speaker's coaching history
+export interface CoachingSession {
+  id: string; // the project's id, so rendering a project again replaces its entry
+  speaker: string;
+  title: string; // source file name
+  recordedAt: number; // epoch ms
+  metrics: ProcessingMetrics;
+  counts: Partial<Record<CutType, number>>; // detected cuts per type, whether or not they were removed
+  fillerWords: Record<string, number>; // detected filler cuts per word, lower case
+  pauses: { count: number; seconds: number; longest: number }; // detected pauses, full length in seconds
+  wordsPerMinute: number | null; // before editing; null without a transcript
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  fileName: string;
+  fileSize: number;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  cutsCount: number;
+}
+
+/**
+ * One reversible edit to the cut list. Only the cuts it touched are stored:
+ * `before` holds their previous versions (absent for cuts it created) and
+ * `after` their new versions (absent for cuts it deleted).
+ */
+export interface CutCommand {
+  id: string;
+  label: string;
+  timestamp: number;
+  before: CutEvent[];
+  after: CutEvent[];
+}
+
+export interface CutHistory {
+  past: CutCommand[]; // applied commands, oldest first
+  future: CutCommand[]; // undone commands, most recently undone first
+}
+
+// Everything needed to resume a session. The media itself is stored separately (see projectStore).
+export interface ProjectRecord extends ProjectSummary {
+  fileType: string;
+  phase: Phase;
+  playhead: number; // seconds
+  originalDuration: number;
+  config: VideoConfig;
+  cuts: CutEvent[];
+  transcript: Transcript | null;
+  history?: CutHistory; // absent on projects saved before undo history existed
+  media?: Blob; // only when the browser has no Origin Private File System
+}